@@ -0,0 +1,310 @@
+import { randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
+import type { Appointment } from '../src/app/(app)/lib/appointments';
+import {
+  addDaysToKey,
+  DEFAULT_AVAILABILITY,
+  fromMinutes,
+  slotToDate,
+  toDateKey,
+  type AvailabilityRules,
+} from '../src/app/(app)/lib/availability';
+import type {
+  DoctorVerification,
+  LicenseFile,
+  LicenseReview,
+  VerificationRequest,
+  VerificationStatus,
+} from '../src/app/(app)/lib/licenses';
+import type { AppNotification } from '../src/app/(app)/lib/notifications';
+import { EMPTY_PATIENT_PROFILE, type DoctorProfile, type PatientProfile } from '../src/app/(app)/lib/profiles';
+import type { ReminderPreferences } from '../src/app/(app)/lib/reminders';
+import type { User } from '../src/app/(app)/store/authStor';
+import type { Doctor } from '../src/types/types';
+
+export interface UserRecord extends User {
+  passwordHash: string;
+  // False until the sign-up code is entered. The seeded accounts leave it unset and count as verified.
+  emailVerified?: boolean;
+  licenseNumber?: string;
+  // New doctors start pending and stay out of the directory until an admin approves their license.
+  // The seeded doctors leave it unset and count as verified.
+  verificationStatus?: VerificationStatus;
+  licenseDocuments?: LicenseFile[];
+  licenseReview?: LicenseReview;
+  // Directory fields, doctors only
+  experience?: number;
+  rating?: number;
+  consultationFee?: number;
+  photo_url?: string;
+  bio?: string;
+  qualifications?: string[];
+  languages?: string[];
+  clinicAddress?: string;
+}
+
+export type NotificationRecord = AppNotification & { userId: string };
+
+const SALT = 'medicare-mock';
+
+export function hashPassword(password: string) {
+  return scryptSync(password, SALT, 32).toString('hex');
+}
+
+export function checkPassword(record: UserRecord, password: string) {
+  const expected = Buffer.from(record.passwordHash, 'hex');
+  return timingSafeEqual(expected, scryptSync(password, SALT, 32));
+}
+
+export function avatarFor(email: string) {
+  return `https://api.dicebear.com/6.x/avataaars/svg?seed=${email}`;
+}
+
+export function toPublicUser({
+  passwordHash,
+  emailVerified,
+  licenseNumber,
+  verificationStatus,
+  licenseDocuments,
+  licenseReview,
+  experience,
+  rating,
+  consultationFee,
+  photo_url,
+  bio,
+  qualifications,
+  languages,
+  clinicAddress,
+  ...user
+}: UserRecord): User {
+  return user;
+}
+
+export function toDoctor(record: UserRecord): Doctor {
+  return {
+    id: record.id,
+    name: record.name,
+    specialization: record.specialization ?? 'General Practitioner',
+    experience: record.experience ?? 0,
+    rating: record.rating ?? 0,
+    consultationFee: record.consultationFee ?? 0,
+    avatar: record.avatar,
+    photo_url: record.photo_url || undefined,
+    bio: record.bio,
+    qualifications: record.qualifications,
+    languages: record.languages,
+    clinicAddress: record.clinicAddress,
+  };
+}
+
+export function toDoctorProfile(record: UserRecord): DoctorProfile {
+  return {
+    specialization: record.specialization ?? 'General Practitioner',
+    bio: record.bio ?? '',
+    qualifications: record.qualifications ?? [],
+    experience: record.experience ?? 0,
+    consultationFee: record.consultationFee ?? 0,
+    languages: record.languages ?? [],
+    clinicAddress: record.clinicAddress ?? '',
+    photo_url: record.photo_url ?? '',
+  };
+}
+
+export function verificationStatusOf(record: UserRecord): VerificationStatus {
+  return record.verificationStatus ?? 'verified';
+}
+
+// Doctors patients can find and book
+export function isListedDoctor(record: UserRecord) {
+  return record.role === 'doctor' && verificationStatusOf(record) === 'verified';
+}
+
+export function toVerification(record: UserRecord): DoctorVerification {
+  return {
+    status: verificationStatusOf(record),
+    licenseNumber: record.licenseNumber ?? '',
+    documents: (record.licenseDocuments ?? []).map(({ dataUrl, ...document }) => document),
+    review: record.licenseReview ?? null,
+  };
+}
+
+export function toVerificationRequest(record: UserRecord): VerificationRequest {
+  return {
+    ...toVerification(record),
+    doctorId: record.id,
+    name: record.name,
+    email: record.email,
+    specialization: record.specialization ?? 'General Practitioner',
+  };
+}
+
+function seedDoctor(
+  name: string,
+  email: string,
+  specialization: string,
+  experience: number,
+  rating: number,
+  consultationFee: number
+): UserRecord {
+  return {
+    id: randomUUID(),
+    email,
+    name,
+    role: 'doctor',
+    specialization,
+    phone: '+1 (555) 000-0000',
+    avatar: avatarFor(email),
+    passwordHash: hashPassword('password123'),
+    licenseNumber: `MD-${email.length}${experience}${consultationFee}`,
+    experience,
+    rating,
+    consultationFee,
+  };
+}
+
+// A one-page PDF so the admin review queue has something to open
+const SAMPLE_LICENSE_PDF =
+  'data:application/pdf;base64,JVBERi0xLjQKMSAwIG9iago8PCAvVHlwZSAvQ2F0YWxvZyAvUGFnZXMgMiAwIFIgPj4KZW5kb2JqCjIgMCBvYmoKPDwgL1R5cGUgL1BhZ2VzIC9LaWRzIFszIDAgUl0gL0NvdW50IDEgPj4KZW5kb2JqCjMgMCBvYmoKPDwgL1R5cGUgL1BhZ2UgL1BhcmVudCAyIDAgUiAvTWVkaWFCb3ggWzAgMCA2MTIgNzkyXSAvQ29udGVudHMgNCAwIFIgL1Jlc291cmNlcyA8PCAvRm9udCA8PCAvRjEgNSAwIFIgPj4gPj4gPj4KZW5kb2JqCjQgMCBvYmoKPDwgL0xlbmd0aCAxNDcgPj4Kc3RyZWFtCkJUIC9GMSAxOCBUZiA3MiA3MjAgVGQgKFN0YXRlIE1lZGljYWwgQm9hcmQgLSBQaHlzaWNpYW4gTGljZW5zZSkgVGogMCAtMzAgVGQgL0YxIDEyIFRmIChMaWNlbnNlZTogRHIuIE5hZGlhIEh1c3NhaW4gICAgTGljZW5zZSBuby4gTUQtNDQ4MjEwKSBUaiBFVAplbmRzdHJlYW0KZW5kb2JqCjUgMCBvYmoKPDwgL1R5cGUgL0ZvbnQgL1N1YnR5cGUgL1R5cGUxIC9CYXNlRm9udCAvSGVsdmV0aWNhID4+CmVuZG9iagp4cmVmCjAgNgowMDAwMDAwMDAwIDY1NTM1IGYgCjAwMDAwMDAwMDkgMDAwMDAgbiAKMDAwMDAwMDA1OCAwMDAwMCBuIAowMDAwMDAwMTE1IDAwMDAwIG4gCjAwMDAwMDAyNDEgMDAwMDAgbiAKMDAwMDAwMDQzOSAwMDAwMCBuIAp0cmFpbGVyCjw8IC9TaXplIDYgL1Jvb3QgMSAwIFIgPj4Kc3RhcnR4cmVmCjUwOQolJUVPRgo=';
+
+const DEMO_PATIENT_ID = randomUUID();
+const DEMO_DOCTOR_ID = randomUUID();
+
+// On the clock of a doctor who hasn't set their hours yet, so seeded visits sit on real slots whatever
+// zone the server runs in
+function daysFromNow(days: number, hour: number) {
+  const today = toDateKey(new Date(), DEFAULT_AVAILABILITY.timeZone);
+  return slotToDate(DEFAULT_AVAILABILITY, addDaysToKey(today, days), fromMinutes(hour * 60)).toISOString();
+}
+
+// In-memory state, reset on every restart. Seeded with the demo accounts shown on the login page.
+export const db = {
+  users: [
+    {
+      id: DEMO_PATIENT_ID,
+      email: 'patient@demo.com',
+      name: 'Jane Doe',
+      role: 'patient',
+      phone: '+1 (555) 123-4567',
+      avatar: avatarFor('patient@demo.com'),
+      passwordHash: hashPassword('password123'),
+    },
+    {
+      id: DEMO_DOCTOR_ID,
+      email: 'doctor@demo.com',
+      name: 'Dr. John Smith',
+      role: 'doctor',
+      specialization: 'Cardiologist',
+      phone: '+1 (555) 987-6543',
+      avatar: avatarFor('doctor@demo.com'),
+      passwordHash: hashPassword('password123'),
+      licenseNumber: 'MD-100200',
+      experience: 15,
+      rating: 4.8,
+      consultationFee: 150,
+    },
+    seedDoctor('Dr. Ahsan Khan', 'ahsan.khan@demo.com', 'Cardiologist', 10, 4.6, 120),
+    seedDoctor('Dr. Sara Malik', 'sara.malik@demo.com', 'Neurologist', 7, 4.7, 140),
+    seedDoctor('Dr. Imran Ali', 'imran.ali@demo.com', 'Orthopedic Surgeon', 12, 4.5, 160),
+    seedDoctor('Dr. Zainab Fatima', 'zainab.fatima@demo.com', 'Dermatologist', 5, 4.9, 90),
+    seedDoctor('Dr. Omar Siddiqui', 'omar.siddiqui@demo.com', 'Pediatrician', 9, 4.4, 80),
+    seedDoctor('Dr. Hina Raza', 'hina.raza@demo.com', 'Gynecologist', 14, 4.8, 130),
+    seedDoctor('Dr. Bilal Ahmed', 'bilal.ahmed@demo.com', 'General Practitioner', 3, 4.2, 50),
+    seedDoctor('Dr. Ayesha Noor', 'ayesha.noor@demo.com', 'Psychiatrist', 11, 4.6, 170),
+    {
+      ...seedDoctor('Dr. Nadia Hussain', 'nadia.hussain@demo.com', 'Dermatologist', 6, 0, 110),
+      licenseNumber: 'MD-448210',
+      verificationStatus: 'pending_verification',
+      licenseDocuments: [
+        {
+          id: randomUUID(),
+          name: 'medical-license.pdf',
+          type: 'application/pdf',
+          size: 692,
+          uploadedAt: daysFromNow(-1, 16),
+          dataUrl: SAMPLE_LICENSE_PDF,
+        },
+      ],
+    },
+    {
+      id: randomUUID(),
+      email: 'admin@demo.com',
+      name: 'MediCare Admin',
+      role: 'admin',
+      phone: '+1 (555) 000-0001',
+      avatar: avatarFor('admin@demo.com'),
+      passwordHash: hashPassword('password123'),
+    },
+  ] as UserRecord[],
+
+  appointments: [
+    { days: 1, hour: 9, status: 'pending', notes: 'Follow-up on blood pressure readings' },
+    { days: 2, hour: 14, status: 'confirmed' },
+    {
+      days: -7,
+      hour: 10,
+      status: 'completed',
+      notes: 'Occasional chest tightness after climbing stairs',
+      record: {
+        visitNotes: 'ECG normal. BP 138/88. No tightness at rest; symptoms only on exertion.',
+        diagnosis: 'Stage 1 hypertension',
+        followUp: 'Log blood pressure twice daily for two weeks and return with the readings.',
+        updatedAt: daysFromNow(-7, 11),
+      },
+      prescription: {
+        medications: [
+          {
+            name: 'Amlodipine',
+            dosage: '5 mg',
+            frequency: 'Once daily',
+            duration: '30 days',
+            instructions: 'Take in the morning',
+          },
+        ],
+        instructions: 'Reduce salt intake and walk 30 minutes a day.',
+        issuedAt: daysFromNow(-7, 11),
+        updatedAt: daysFromNow(-7, 11),
+      },
+    },
+  ].map(({ days, hour, ...rest }) => ({
+    id: randomUUID(),
+    doctorId: DEMO_DOCTOR_ID,
+    patientId: DEMO_PATIENT_ID,
+    date: daysFromNow(days, hour),
+    durationMinutes: 30,
+    ...rest,
+    consultationFee: 150,
+    doctorName: 'Dr. John Smith',
+    doctorAvatar: avatarFor('doctor@demo.com'),
+    doctorSpecialization: 'Cardiologist',
+    patientName: 'Jane Doe',
+    patientEmail: 'patient@demo.com',
+    patientAvatar: avatarFor('patient@demo.com'),
+  })) as Appointment[],
+
+  // Keyed by doctor id; doctors without an entry use DEFAULT_AVAILABILITY
+  availability: {} as Record<string, AvailabilityRules>,
+
+  // Newest first
+  notifications: [] as NotificationRecord[],
+
+  // Keyed by patient id; patients without an entry use DEFAULT_REMINDER_PREFERENCES
+  reminderPreferences: {} as Record<string, ReminderPreferences>,
+
+  // Keyed by patient id; patients without an entry use EMPTY_PATIENT_PROFILE
+  patientProfiles: {
+    [DEMO_PATIENT_ID]: {
+      personal: { dateOfBirth: '1988-04-12', gender: 'female', bloodType: 'O+' },
+      allergies: ['Penicillin'],
+      conditions: ['Hypertension'],
+      medications: [{ name: 'Amlodipine', dosage: '5 mg once daily' }],
+      emergencyContact: { name: 'John Doe', relationship: 'Spouse', phone: '+1 (555) 222-3344' },
+    },
+  } as Record<string, PatientProfile>,
+};
+
+export function patientProfileFor(patientId: string): PatientProfile {
+  return db.patientProfiles[patientId] ?? EMPTY_PATIENT_PROFILE;
+}
+
+export function findUserByEmail(email: string) {
+  return db.users.find((u) => u.email.toLowerCase() === email.toLowerCase());
+}
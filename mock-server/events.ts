@@ -0,0 +1,33 @@
+import type { ServerResponse } from 'node:http';
+
+// Open event streams per user id; a user may have several tabs open
+const streams = new Map<string, Set<ServerResponse>>();
+
+// Keeps proxies from closing idle connections
+const HEARTBEAT_MS = 25_000;
+
+export function openStream(res: ServerResponse, userId: string) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 3000\n\n');
+
+  const own = streams.get(userId) ?? new Set();
+  own.add(res);
+  streams.set(userId, own);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    own.delete(res);
+    if (own.size === 0) streams.delete(userId);
+  });
+}
+
+export function pushTo(userId: string, event: string, data: unknown) {
+  for (const res of streams.get(userId) ?? []) {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
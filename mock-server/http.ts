@@ -0,0 +1,83 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { z } from 'zod';
+
+export interface Context {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export type Handler = (ctx: Context) => void | Promise<void>;
+
+type Route = { method: string; segments: string[]; handler: Handler };
+
+export function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+export function fail(
+  res: ServerResponse,
+  status: number,
+  code: string,
+  message: string,
+  fields?: Record<string, string>
+) {
+  send(res, status, fields ? { code, message, fields } : { code, message });
+}
+
+// Answers 400 with per-field messages; returns null in that case
+export function parseBody<T>(ctx: Context, schema: z.ZodType<T>, fallback: string): T | null {
+  const parsed = schema.safeParse(ctx.body);
+  if (parsed.success) return parsed.data;
+  const fields = Object.fromEntries(parsed.error.issues.map((issue) => [issue.path.join('.'), issue.message]));
+  fail(ctx.res, 400, 'VALIDATION', parsed.error.issues[0]?.message ?? fallback, fields);
+  return null;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  if (chunks.length === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// Minimal method + path router; `:name` segments are captured into ctx.params
+export class Router {
+  private routes: Route[] = [];
+
+  add(method: string, path: string, handler: Handler) {
+    this.routes.push({ method, segments: path.split('/').filter(Boolean), handler });
+    return this;
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse, pathname: string, query: URLSearchParams) {
+    const parts = pathname.split('/').filter(Boolean);
+
+    for (const route of this.routes) {
+      if (route.method !== req.method || route.segments.length !== parts.length) continue;
+
+      const params: Record<string, string> = {};
+      const matches = route.segments.every((segment, i) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = decodeURIComponent(parts[i]);
+          return true;
+        }
+        return segment === parts[i];
+      });
+      if (!matches) continue;
+
+      const body = await readJson(req);
+      await route.handler({ req, res, params, query, body });
+      return true;
+    }
+
+    return false;
+  }
+}
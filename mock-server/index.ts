@@ -0,0 +1,61 @@
+import { createServer } from 'node:http';
+import { fail, Router } from './http';
+import { startReminderScheduler } from './reminders';
+import { accountRoutes } from './routes/account';
+import { appointmentRoutes } from './routes/appointments';
+import { authRoutes } from './routes/auth';
+import { availabilityRoutes } from './routes/availability';
+import { doctorRoutes } from './routes/doctors';
+import { eventRoutes } from './routes/events';
+import { licenseRoutes } from './routes/licenses';
+import { notificationRoutes } from './routes/notifications';
+import { patientRoutes } from './routes/patients';
+import { reminderRoutes } from './routes/reminders';
+import { recordRoutes } from './routes/records';
+
+// Local stand-in for the API behind API_BASE. Point the app at it with
+// VITE_API_BASE=http://localhost:4000/api/v1
+const PORT = Number(process.env.MOCK_API_PORT ?? 4000);
+const PREFIX = '/api/v1';
+
+const router = new Router();
+authRoutes(router);
+accountRoutes(router);
+appointmentRoutes(router);
+availabilityRoutes(router);
+doctorRoutes(router);
+recordRoutes(router);
+eventRoutes(router);
+notificationRoutes(router);
+reminderRoutes(router);
+patientRoutes(router);
+licenseRoutes(router);
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  if (!url.pathname.startsWith(PREFIX)) {
+    return fail(res, 404, 'NOT_FOUND', `No route for ${req.method} ${url.pathname}`);
+  }
+
+  try {
+    const handled = await router.handle(req, res, url.pathname.slice(PREFIX.length), url.searchParams);
+    if (!handled) fail(res, 404, 'NOT_FOUND', `No route for ${req.method} ${url.pathname}`);
+  } catch (err) {
+    console.error(err);
+    fail(res, 500, 'INTERNAL', 'Mock server error');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock API listening on http://localhost:${PORT}${PREFIX}`);
+  startReminderScheduler();
+});
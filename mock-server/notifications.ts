@@ -0,0 +1,83 @@
+import { randomUUID } from 'node:crypto';
+import type { Appointment, AppointmentActor } from '../src/app/(app)/lib/appointments';
+import { NOTIFICATION_EVENT } from '../src/app/(app)/lib/events';
+import type { LicenseReview } from '../src/app/(app)/lib/licenses';
+import type { AppNotification, AppointmentNotificationKind, NotificationKind } from '../src/app/(app)/lib/notifications';
+import { formatInTimeZone } from '../src/app/(app)/lib/timezones';
+import { db, type NotificationRecord, type UserRecord } from './db';
+import { pushTo } from './events';
+import { providers } from './providers';
+import { availabilityFor } from './routes/availability';
+
+// Each user keeps at most this many; the oldest are dropped
+const MAX_PER_USER = 100;
+
+export function toNotificationView({ userId, ...notification }: NotificationRecord): AppNotification {
+  return notification;
+}
+
+export function notify(userId: string, notification: Pick<AppNotification, 'kind' | 'title' | 'body' | 'appointmentId'>) {
+  const record: NotificationRecord = {
+    ...notification,
+    id: randomUUID(),
+    userId,
+    createdAt: new Date().toISOString(),
+    readAt: null,
+  };
+  db.notifications.unshift(record);
+
+  const own = db.notifications.filter((n) => n.userId === userId);
+  if (own.length > MAX_PER_USER) {
+    const dropped = new Set(own.slice(MAX_PER_USER));
+    db.notifications = db.notifications.filter((n) => !dropped.has(n));
+  }
+
+  pushTo(userId, NOTIFICATION_EVENT, toNotificationView(record));
+}
+
+const TITLES: Record<NotificationKind, string> = {
+  booked: 'New appointment request',
+  confirmed: 'Appointment confirmed',
+  completed: 'Visit completed',
+  cancelled: 'Appointment cancelled',
+  rescheduled: 'Appointment rescheduled',
+  license_approved: 'License verified',
+  license_rejected: 'License not verified',
+};
+
+// Tells the other party what `actor` just did to the appointment
+export function notifyAppointmentChange(
+  appointment: Appointment,
+  actor: AppointmentActor,
+  kind: AppointmentNotificationKind
+) {
+  const recipient = actor === 'doctor' ? appointment.patientId : appointment.doctorId;
+  const who = actor === 'doctor' ? appointment.doctorName : appointment.patientName;
+  // In the doctor's zone, which both parties booked against
+  const { timeZone } = availabilityFor(appointment.doctorId);
+  const when = formatInTimeZone(new Date(appointment.date), timeZone, 'EEE, MMM d · h:mm a');
+
+  const body = {
+    booked: `${who} requested an appointment on ${when}.`,
+    confirmed: `${who} confirmed your appointment on ${when}.`,
+    completed: `${who} marked your visit on ${when} as completed.`,
+    cancelled: `${who} cancelled the appointment on ${when}${appointment.cancellation ? `: ${appointment.cancellation.reason}` : '.'}`,
+    rescheduled: `${who} moved the appointment to ${when}${appointment.status === 'pending' ? ' and it needs confirming again.' : '.'}`,
+  }[kind];
+
+  notify(recipient, { kind, title: TITLES[kind], body, appointmentId: appointment.id });
+}
+
+// Tells a doctor how the review of their license went, in the app and by email. The decision is
+// already saved by then, so a failed email is only logged.
+export function notifyLicenseReview(doctor: UserRecord, review: LicenseReview) {
+  const kind = review.decision === 'approved' ? 'license_approved' : 'license_rejected';
+  const body =
+    review.decision === 'approved'
+      ? 'Your license has been verified. Patients can now find you in the directory and book appointments.'
+      : `Your license couldn't be verified: ${review.reason?.replace(/\.$/, '')}. Upload corrected documents to be reviewed again.`;
+  notify(doctor.id, { kind, title: TITLES[kind], body });
+  providers.email
+    .send({ to: doctor.email, subject: TITLES[kind], body: `${body}\n\nMediCare` })
+    .catch((err) => console.error(`Failed to send ${kind} email`, err));
+}
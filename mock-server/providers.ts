@@ -0,0 +1,46 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ReminderChannel } from '../src/app/(app)/lib/reminders';
+
+// Outgoing email and SMS. The real API would plug in a mail service or SMS gateway behind the same
+// interface; locally, messages are printed or appended to files so they can be read back offline.
+
+export interface OutgoingMessage {
+  to: string;
+  subject?: string; // email only
+  body: string;
+}
+
+export interface MessageProvider {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+const OUTBOX_DIR = process.env.MOCK_OUTBOX_DIR ?? join(process.cwd(), 'mock-server', '.outbox');
+
+export function consoleProvider(channel: ReminderChannel): MessageProvider {
+  return {
+    async send({ to, subject, body }) {
+      console.log(`[${channel}] to ${to}${subject ? ` · ${subject}` : ''}\n${body}\n`);
+    },
+  };
+}
+
+// One JSON object per line in <outbox>/<channel>.jsonl
+export function fileProvider(channel: ReminderChannel, dir = OUTBOX_DIR): MessageProvider {
+  return {
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      await appendFile(join(dir, `${channel}.jsonl`), `${JSON.stringify({ at: new Date().toISOString(), ...message })}\n`);
+    },
+  };
+}
+
+function fromEnv(channel: ReminderChannel, setting: string | undefined): MessageProvider {
+  return setting === 'file' ? fileProvider(channel) : consoleProvider(channel);
+}
+
+// MOCK_EMAIL_PROVIDER / MOCK_SMS_PROVIDER: `console` (default) or `file`
+export const providers: Record<ReminderChannel, MessageProvider> = {
+  email: fromEnv('email', process.env.MOCK_EMAIL_PROVIDER),
+  sms: fromEnv('sms', process.env.MOCK_SMS_PROVIDER),
+};
@@ -0,0 +1,86 @@
+import { isActive, type Appointment } from '../src/app/(app)/lib/appointments';
+import { toDateKey } from '../src/app/(app)/lib/availability';
+import {
+  activeChannels,
+  DEFAULT_REMINDER_PREFERENCES,
+  dueReminder,
+  type ReminderChannel,
+  type ReminderKind,
+} from '../src/app/(app)/lib/reminders';
+import { formatInTimeZone } from '../src/app/(app)/lib/timezones';
+import { db } from './db';
+import { providers, type OutgoingMessage } from './providers';
+import { availabilityFor } from './routes/availability';
+
+// How often upcoming appointments are checked for due reminders
+const INTERVAL_MS = Number(process.env.MOCK_REMINDER_INTERVAL_MS ?? 60_000);
+
+// Keyed by appointment, kind and start time, so moving an appointment re-arms its reminders
+const sent = new Set<string>();
+
+function sentKey(appointment: Appointment, kind: ReminderKind) {
+  return `${appointment.id}:${kind}:${appointment.date}`;
+}
+
+export function reminderPreferencesFor(userId: string) {
+  return db.reminderPreferences[userId] ?? DEFAULT_REMINDER_PREFERENCES;
+}
+
+function compose(appointment: Appointment, kind: ReminderKind, channel: ReminderChannel): Omit<OutgoingMessage, 'to'> {
+  const date = new Date(appointment.date);
+  const { doctorName } = appointment;
+  // Times and days as the doctor's clinic counts them, not wherever this server runs
+  const { timeZone } = availabilityFor(appointment.doctorId);
+  const time = formatInTimeZone(date, timeZone, 'h:mm a');
+  const day = toDateKey(date, timeZone) === toDateKey(new Date(), timeZone) ? 'today' : 'tomorrow';
+  const [subject, line] = {
+    confirmation: [
+      'Appointment booked',
+      `Your appointment with ${doctorName} on ${formatInTimeZone(date, timeZone, "EEEE, MMMM d 'at' h:mm a")} is booked.` +
+        (appointment.status === 'pending' ? " We'll let you know once it's confirmed." : ''),
+    ],
+    day_before: [`Reminder: appointment ${day}`, `Reminder: you see ${doctorName} ${day} at ${time}.`],
+    hour_before: ['Your appointment starts soon', `Your appointment with ${doctorName} starts at ${time}.`],
+  }[kind];
+
+  if (channel === 'sms') return { body: `MediCare: ${line}` };
+  return {
+    subject,
+    body: `Hi ${appointment.patientName},\n\n${line}\n\nYou can reschedule or cancel from My Appointments.\n\nMediCare`,
+  };
+}
+
+async function deliver(appointment: Appointment, kind: ReminderKind) {
+  sent.add(sentKey(appointment, kind));
+  const patient = db.users.find((u) => u.id === appointment.patientId);
+  if (!patient) return;
+
+  const channels = activeChannels(reminderPreferencesFor(patient.id), patient.phone);
+  await Promise.all(
+    channels.map((channel) =>
+      providers[channel]
+        .send({ to: channel === 'email' ? patient.email : patient.phone, ...compose(appointment, kind, channel) })
+        .catch((err) => console.error(`Failed to send ${kind} ${channel}`, err))
+    )
+  );
+}
+
+// Also counts as any reminder already due, e.g. when booking for later today
+export function sendBookingConfirmation(appointment: Appointment) {
+  const due = dueReminder(appointment, new Date());
+  if (due) sent.add(sentKey(appointment, due));
+  void deliver(appointment, 'confirmation');
+}
+
+export function checkReminders(now = new Date()) {
+  for (const appointment of db.appointments) {
+    if (!isActive(appointment.status)) continue;
+    const kind = dueReminder(appointment, now);
+    if (kind && !sent.has(sentKey(appointment, kind))) void deliver(appointment, kind);
+  }
+}
+
+export function startReminderScheduler() {
+  checkReminders();
+  return setInterval(() => checkReminders(), INTERVAL_MS);
+}
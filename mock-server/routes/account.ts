@@ -0,0 +1,91 @@
+import {
+  emailChangeSchema,
+  passwordChangeSchema,
+  verificationCodeSchema,
+} from '../../src/app/(app)/lib/account';
+import { checkPassword, db, findUserByEmail, hashPassword, toPublicUser } from '../db';
+import { fail, parseBody, send, type Router } from '../http';
+import { requireParticipant, requireUser } from '../session';
+import { revokeRefreshTokens } from '../token';
+import { codeFailureMessage, redeemCode, sendCode } from '../verification';
+import { cancelUpcomingFor } from './appointments';
+
+const WRONG_PASSWORD = { currentPassword: 'Your current password is incorrect' };
+
+export function accountRoutes(router: Router) {
+  router.add('PUT', '/account/password', (ctx) => {
+    const user = requireUser(ctx);
+    const body = user && parseBody(ctx, passwordChangeSchema, 'Invalid password change');
+    if (!user || !body) return;
+
+    if (!checkPassword(user, body.currentPassword)) {
+      return fail(ctx.res, 400, 'VALIDATION', WRONG_PASSWORD.currentPassword, WRONG_PASSWORD);
+    }
+    user.passwordHash = hashPassword(body.newPassword);
+    // Other sessions may belong to whoever knew the old password
+    const { refreshToken } = (ctx.body ?? {}) as { refreshToken?: unknown };
+    revokeRefreshTokens(user.id, typeof refreshToken === 'string' ? refreshToken : undefined);
+    send(ctx.res, 204);
+  });
+
+  // Step one of an email change: a code goes to the new address, which only takes effect once it's entered
+  router.add('POST', '/account/email', async (ctx) => {
+    const user = requireUser(ctx);
+    const body = user && parseBody(ctx, emailChangeSchema, 'Invalid email change');
+    if (!user || !body) return;
+
+    if (!checkPassword(user, body.currentPassword)) {
+      return fail(ctx.res, 400, 'VALIDATION', WRONG_PASSWORD.currentPassword, WRONG_PASSWORD);
+    }
+    if (body.email.toLowerCase() === user.email.toLowerCase()) {
+      return fail(ctx.res, 400, 'VALIDATION', 'That is already your email address', {
+        email: 'That is already your email address',
+      });
+    }
+    if (findUserByEmail(body.email)) {
+      return fail(ctx.res, 409, 'EMAIL_TAKEN', 'An account with this email already exists', {
+        email: 'An account with this email already exists',
+      });
+    }
+
+    const sent = await sendCode(ctx, 'email_change', user.id, body.email, body.email);
+    if (sent) send(ctx.res, 202, sent);
+  });
+
+  router.add('POST', '/account/email/verify', (ctx) => {
+    const user = requireUser(ctx);
+    const body = user && parseBody(ctx, verificationCodeSchema, 'Invalid code');
+    if (!user || !body) return;
+
+    const result = redeemCode('email_change', user.id, body.code);
+    if (!result.ok) {
+      const message = codeFailureMessage(result.reason);
+      return fail(ctx.res, 400, 'INVALID_CODE', message, { code: message });
+    }
+    // Someone may have registered the address while the code was out
+    if (findUserByEmail(result.target)) {
+      return fail(ctx.res, 409, 'EMAIL_TAKEN', 'An account with this email already exists', {
+        code: 'An account with this email already exists',
+      });
+    }
+    user.email = result.target;
+    for (const appointment of db.appointments) {
+      if (appointment.patientId === user.id) appointment.patientEmail = user.email;
+    }
+    send(ctx.res, 200, toPublicUser(user));
+  });
+
+  // Past visits stay in the other party's records; anything upcoming is cancelled
+  router.add('DELETE', '/account', (ctx) => {
+    const user = requireParticipant(ctx);
+    if (!user) return;
+
+    cancelUpcomingFor(user, 'The account was closed');
+    db.users = db.users.filter((u) => u.id !== user.id);
+    db.notifications = db.notifications.filter((n) => n.userId !== user.id);
+    delete db.reminderPreferences[user.id];
+    delete db.patientProfiles[user.id];
+    delete db.availability[user.id];
+    send(ctx.res, 204);
+  });
+}
@@ -0,0 +1,368 @@
+import { randomUUID } from 'node:crypto';
+import type { BookingPayload } from '../../src/app/(app)/lib/api';
+import {
+  appointmentEnd,
+  canReschedule,
+  canTransition,
+  intervalsOverlap,
+  isActive,
+  isAppointmentStatus,
+  isCancellationWindowOpen,
+  MAX_BULK,
+  MAX_NOTES_LENGTH,
+  rescheduledStatus,
+  type Appointment,
+  type AppointmentActor,
+  type AppointmentStatus,
+  type BulkStatusResult,
+  type BusyInterval,
+  type DoctorAppointment,
+  type PatientAppointment,
+} from '../../src/app/(app)/lib/appointments';
+import { isOffered, nearestFreeSlots, type AvailabilityRules } from '../../src/app/(app)/lib/availability';
+import { APPOINTMENT_EVENT } from '../../src/app/(app)/lib/events';
+import { db, isListedDoctor, type UserRecord } from '../db';
+import { pushTo } from '../events';
+import { fail, send, type Context, type Router } from '../http';
+import { notifyAppointmentChange } from '../notifications';
+import { sendBookingConfirmation } from '../reminders';
+import { requireParticipant, requireUser, type Participant } from '../session';
+import { availabilityFor } from './availability';
+
+export function toDoctorView({ doctorName, doctorAvatar, doctorSpecialization, ...rest }: Appointment): DoctorAppointment {
+  return rest;
+}
+
+export function toPatientView({
+  patientName,
+  patientEmail,
+  patientAvatar,
+  record,
+  ...rest
+}: Appointment): PatientAppointment {
+  return { ...rest, cancellationWindowHours: availabilityFor(rest.doctorId).cancellationWindowHours };
+}
+
+// Pushes the change to both parties' open tabs, each with their own view of it
+export function publishAppointment(appointment: Appointment) {
+  pushTo(appointment.doctorId, APPOINTMENT_EVENT, toDoctorView(appointment));
+  pushTo(appointment.patientId, APPOINTMENT_EVENT, toPatientView(appointment));
+}
+
+function toView(appointment: Appointment, actor: AppointmentActor) {
+  return actor === 'doctor' ? toDoctorView(appointment) : toPatientView(appointment);
+}
+
+// Finds an appointment the user is a party to; answers 404 otherwise
+function findOwn(ctx: Context, user: UserRecord) {
+  const appointment = db.appointments.find(
+    (a) => a.id === ctx.params.id && (a.doctorId === user.id || a.patientId === user.id)
+  );
+  if (!appointment) fail(ctx.res, 404, 'NOT_FOUND', 'Appointment not found');
+  return appointment;
+}
+
+type TransitionFailure = { status: number; code: string; message: string; fields?: Record<string, string> };
+
+function isReason(reason: unknown): reason is string {
+  return typeof reason === 'string' && Boolean(reason.trim());
+}
+
+// Moves the appointment into `to` and tells both parties, or says why it can't without touching it
+function applyTransition(
+  user: Participant,
+  appointment: Appointment,
+  to: AppointmentStatus,
+  reason: unknown
+): TransitionFailure | null {
+  if (!canTransition(appointment.status, to, user.role)) {
+    return { status: 409, code: 'INVALID_TRANSITION', message: `Cannot move an appointment from ${appointment.status} to ${to}` };
+  }
+  if (to === 'cancelled') {
+    if (!isReason(reason)) {
+      return {
+        status: 400,
+        code: 'VALIDATION',
+        message: 'A cancellation reason is required',
+        fields: { reason: 'Please give a reason' },
+      };
+    }
+    const { cancellationWindowHours } = availabilityFor(appointment.doctorId);
+    if (user.role === 'patient' && !isCancellationWindowOpen(appointment, cancellationWindowHours, new Date())) {
+      return {
+        status: 409,
+        code: 'CANCELLATION_WINDOW',
+        message: `${appointment.doctorName} needs ${cancellationWindowHours} hours' notice to cancel. Please contact the clinic.`,
+      };
+    }
+    appointment.cancellation = { at: new Date().toISOString(), by: user.role, reason: reason.trim().slice(0, 500) };
+  }
+  appointment.status = to;
+  publishAppointment(appointment);
+  if (to !== 'pending') notifyAppointmentChange(appointment, user.role, to);
+  return null;
+}
+
+// Used when an account is closed: everything still ahead is cancelled, whatever the cancellation window
+export function cancelUpcomingFor(user: Participant, reason: string) {
+  const now = Date.now();
+  for (const appointment of db.appointments) {
+    if (appointment.doctorId !== user.id && appointment.patientId !== user.id) continue;
+    if (!isActive(appointment.status) || Date.parse(appointment.date) <= now) continue;
+
+    appointment.cancellation = { at: new Date().toISOString(), by: user.role, reason };
+    appointment.status = 'cancelled';
+    publishAppointment(appointment);
+    notifyAppointmentChange(appointment, user.role, 'cancelled');
+  }
+}
+
+function transition(ctx: Context, user: Participant, appointment: Appointment, to: AppointmentStatus) {
+  const { reason } = (ctx.body ?? {}) as { reason?: unknown };
+  const failure = applyTransition(user, appointment, to, reason);
+  if (failure) return fail(ctx.res, failure.status, failure.code, failure.message, failure.fields);
+  send(ctx.res, 200, toView(appointment, user.role));
+}
+
+// Active appointments of either party that overlap [start, end), optionally ignoring one being moved
+function conflictsFor(doctorId: string, patientId: string, start: Date, end: Date, excludeId?: string) {
+  return db.appointments.filter(
+    (a) =>
+      a.id !== excludeId &&
+      isActive(a.status) &&
+      (a.doctorId === doctorId || a.patientId === patientId) &&
+      intervalsOverlap(start, end, new Date(a.date), appointmentEnd(a))
+  );
+}
+
+function busyIntervals(doctorId: string, patientId: string, from: Date, to: Date, excludeId?: string): BusyInterval[] {
+  return conflictsFor(doctorId, patientId, from, to, excludeId).map((a) => ({
+    start: a.date,
+    end: appointmentEnd(a).toISOString(),
+    owner: a.doctorId === doctorId ? 'doctor' : 'patient',
+  }));
+}
+
+// 409 with the nearest free slots for both parties, worded for whoever is asking
+function sendConflict(
+  ctx: Context,
+  actor: AppointmentActor,
+  doctor: UserRecord,
+  patientId: string,
+  rules: AvailabilityRules,
+  start: Date,
+  conflict: Appointment,
+  excludeId?: string
+) {
+  const conflictWith = conflict.doctorId === doctor.id ? 'doctor' : 'patient';
+  const alternatives = nearestFreeSlots(
+    rules,
+    start,
+    (s, e) => conflictsFor(doctor.id, patientId, s, e, excludeId).length === 0,
+    new Date()
+  );
+  send(ctx.res, 409, {
+    code: 'SLOT_CONFLICT',
+    message:
+      conflictWith === 'doctor'
+        ? `${doctor.name} is already booked at that time`
+        : actor === 'patient'
+          ? `You already have an appointment with ${conflict.doctorName} at that time`
+          : `${conflict.patientName} has another appointment at that time`,
+    conflictWith,
+    alternatives: alternatives.map((d) => d.toISOString()),
+  });
+}
+
+export function appointmentRoutes(router: Router) {
+  router.add('GET', '/appointments/doctor', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    if (!user) return;
+    send(ctx.res, 200, db.appointments.filter((a) => a.doctorId === user.id).map(toDoctorView));
+  });
+
+  router.add('GET', '/appointments/patient', (ctx) => {
+    const user = requireUser(ctx, 'patient');
+    if (!user) return;
+    send(ctx.res, 200, db.appointments.filter((a) => a.patientId === user.id).map(toPatientView));
+  });
+
+  router.add('PATCH', '/appointments/:id/status', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    const appointment = user && findOwn(ctx, user);
+    if (!user || !appointment) return;
+
+    const { status } = (ctx.body ?? {}) as { status?: unknown };
+    if (!isAppointmentStatus(status)) {
+      return fail(ctx.res, 400, 'VALIDATION', 'Unknown appointment status', { status: 'Unknown appointment status' });
+    }
+    transition(ctx, user, appointment, status);
+  });
+
+  // One status for many appointments; each row succeeds or fails on its own
+  router.add('PATCH', '/appointments/status', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    if (!user) return;
+
+    const { ids, status, reason } = (ctx.body ?? {}) as { ids?: unknown; status?: unknown; reason?: unknown };
+    if (!isAppointmentStatus(status)) {
+      return fail(ctx.res, 400, 'VALIDATION', 'Unknown appointment status', { status: 'Unknown appointment status' });
+    }
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_BULK || !ids.every((id) => typeof id === 'string')) {
+      return fail(ctx.res, 400, 'VALIDATION', `Select between 1 and ${MAX_BULK} appointments`, {
+        ids: `Select between 1 and ${MAX_BULK} appointments`,
+      });
+    }
+    // Checked once up front rather than failing every row the same way
+    if (status === 'cancelled' && !isReason(reason)) {
+      return fail(ctx.res, 400, 'VALIDATION', 'A cancellation reason is required', { reason: 'Please give a reason' });
+    }
+
+    const results: BulkStatusResult[] = [...new Set(ids as string[])].map((id) => {
+      const appointment = db.appointments.find((a) => a.id === id && a.doctorId === user.id);
+      if (!appointment) return { id, ok: false, code: 'NOT_FOUND', message: 'Appointment not found' };
+      const failure = applyTransition(user, appointment, status, reason);
+      return failure
+        ? { id, ok: false, code: failure.code, message: failure.message }
+        : { id, ok: true, appointment: toDoctorView(appointment) };
+    });
+    send(ctx.res, 200, { results });
+  });
+
+  router.add('PATCH', '/appointments/:id/cancel', (ctx) => {
+    const user = requireParticipant(ctx);
+    const appointment = user && findOwn(ctx, user);
+    if (!user || !appointment) return;
+    transition(ctx, user, appointment, 'cancelled');
+  });
+
+  router.add('POST', '/appointments/book', (ctx) => {
+    const user = requireUser(ctx, 'patient');
+    if (!user) return;
+
+    const { doctorId, date, notes } = (ctx.body ?? {}) as Partial<BookingPayload>;
+    // Doctors still waiting on license verification can't be booked
+    const doctor = db.users.find((u) => u.id === doctorId && isListedDoctor(u));
+    if (!doctor || !date || Number.isNaN(Date.parse(date))) {
+      return fail(ctx.res, 400, 'VALIDATION', 'A doctor and a valid date are required', {
+        ...(doctor ? {} : { doctorId: 'Unknown doctor' }),
+        ...(date && !Number.isNaN(Date.parse(date)) ? {} : { date: 'Please select an appointment date' }),
+      });
+    }
+
+    if (notes !== undefined && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+      const message = typeof notes === 'string' ? `Keep notes under ${MAX_NOTES_LENGTH} characters` : 'Notes must be text';
+      return fail(ctx.res, 400, 'VALIDATION', message, { notes: message });
+    }
+
+    const rules = availabilityFor(doctor.id);
+    const start = new Date(date);
+    const end = new Date(start.getTime() + rules.slotMinutes * 60_000);
+    if (start <= new Date() || !isOffered(rules, start)) {
+      const message = `${doctor.name} is not available at that time`;
+      return fail(ctx.res, 400, 'VALIDATION', message, { date: message });
+    }
+
+    // Check and insert happen in the same tick, so the slot is reserved atomically
+    const [conflict] = conflictsFor(doctor.id, user.id, start, end);
+    if (conflict) return sendConflict(ctx, 'patient', doctor, user.id, rules, start, conflict);
+
+    const appointment: Appointment = {
+      id: randomUUID(),
+      doctorId: doctor.id,
+      patientId: user.id,
+      date: start.toISOString(),
+      durationMinutes: rules.slotMinutes,
+      status: 'pending',
+      consultationFee: doctor.consultationFee,
+      notes,
+      doctorName: doctor.name,
+      doctorAvatar: doctor.photo_url || doctor.avatar,
+      doctorSpecialization: doctor.specialization,
+      patientName: user.name,
+      patientEmail: user.email,
+      patientAvatar: user.avatar,
+    };
+    db.appointments.push(appointment);
+    publishAppointment(appointment);
+    notifyAppointmentChange(appointment, 'patient', 'booked');
+    sendBookingConfirmation(appointment);
+    send(ctx.res, 201, toPatientView(appointment));
+  });
+
+  // Patients move their own appointments; doctors drag them around their calendar
+  router.add('PATCH', '/appointments/:id/reschedule', (ctx) => {
+    const user = requireParticipant(ctx);
+    const appointment = user && findOwn(ctx, user);
+    if (!user || !appointment) return;
+
+    if (!canReschedule(appointment.status)) {
+      return fail(ctx.res, 409, 'INVALID_TRANSITION', `A ${appointment.status} appointment cannot be rescheduled`);
+    }
+    // Moving frees the slot just like cancelling, so the same notice applies
+    const { cancellationWindowHours } = availabilityFor(appointment.doctorId);
+    if (user.role === 'patient' && !isCancellationWindowOpen(appointment, cancellationWindowHours, new Date())) {
+      return fail(
+        ctx.res,
+        409,
+        'CANCELLATION_WINDOW',
+        `${appointment.doctorName} needs ${cancellationWindowHours} hours' notice to reschedule. Please contact the clinic.`
+      );
+    }
+    const { date } = (ctx.body ?? {}) as { date?: string };
+    if (!date || Number.isNaN(Date.parse(date))) {
+      return fail(ctx.res, 400, 'VALIDATION', 'A valid date is required', { date: 'Please select a new date' });
+    }
+
+    const doctor = db.users.find((u) => u.id === appointment.doctorId);
+    if (!doctor) return fail(ctx.res, 404, 'NOT_FOUND', 'Doctor not found');
+
+    const rules = availabilityFor(doctor.id);
+    const start = new Date(date);
+    const end = new Date(start.getTime() + rules.slotMinutes * 60_000);
+    if (start.getTime() === new Date(appointment.date).getTime()) {
+      return fail(ctx.res, 400, 'VALIDATION', 'Pick a different time', { date: 'This is already the appointment time' });
+    }
+    if (start < new Date() || !isOffered(rules, start)) {
+      const message = `${doctor.name} is not available at that time`;
+      return fail(ctx.res, 400, 'VALIDATION', message, { date: message });
+    }
+
+    const { patientId } = appointment;
+    const [conflict] = conflictsFor(doctor.id, patientId, start, end, appointment.id);
+    if (conflict) return sendConflict(ctx, user.role, doctor, patientId, rules, start, conflict, appointment.id);
+
+    // The doctor's policy only applies to moves the doctor didn't make
+    const status =
+      user.role === 'patient' ? rescheduledStatus(appointment.status, rules.rescheduleStatus) : appointment.status;
+    appointment.history = [
+      ...(appointment.history ?? []),
+      {
+        at: new Date().toISOString(),
+        by: user.role,
+        fromDate: appointment.date,
+        toDate: start.toISOString(),
+        fromStatus: appointment.status,
+        toStatus: status,
+      },
+    ];
+    appointment.date = start.toISOString();
+    appointment.durationMinutes = rules.slotMinutes;
+    appointment.status = status;
+    publishAppointment(appointment);
+    notifyAppointmentChange(appointment, user.role, 'rescheduled');
+    send(ctx.res, 200, toView(appointment, user.role));
+  });
+
+  router.add('GET', '/doctors/:id/busy', (ctx) => {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const from = new Date(ctx.query.get('from') ?? '');
+    const to = new Date(ctx.query.get('to') ?? '');
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return fail(ctx.res, 400, 'VALIDATION', 'from and to must be ISO dates');
+    }
+    send(ctx.res, 200, busyIntervals(ctx.params.id, user.id, from, to, ctx.query.get('exclude') ?? undefined));
+  });
+}
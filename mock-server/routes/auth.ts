@@ -0,0 +1,178 @@
+import { randomUUID } from 'node:crypto';
+import {
+  emailVerificationSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+} from '../../src/app/(app)/lib/account';
+import type { DoctorRegistration, LoginPayload, PatientRegistration } from '../../src/app/(app)/lib/api';
+import { avatarFor, checkPassword, db, findUserByEmail, hashPassword, toPublicUser, type UserRecord } from '../db';
+import { fail, parseBody, send, type Context, type Router } from '../http';
+import { issueRefreshToken, redeemRefreshToken, revokeRefreshTokens, signToken } from '../token';
+import { codeFailureMessage, redeemCode, sendCode } from '../verification';
+
+function tokensFor(record: UserRecord) {
+  return { token: signToken({ sub: record.id, role: record.role }), refreshToken: issueRefreshToken(record.id) };
+}
+
+function issue(record: UserRecord) {
+  return { user: toPublicUser(record), ...tokensFor(record) };
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Mirrors the client-side schemas so a bypassed form still gets per-field answers
+function validateRegistration(data: Partial<DoctorRegistration>, role: UserRecord['role']) {
+  const fields: Record<string, string> = {};
+  if (!data.name || data.name.trim().length < 2) fields.name = 'Name must be at least 2 characters';
+  if (!data.email || !EMAIL.test(data.email)) fields.email = 'Please enter a valid email address';
+  if (!data.password || data.password.length < 6) fields.password = 'Password must be at least 6 characters';
+  if (!data.phone || data.phone.replace(/\D/g, '').length < 10) fields.phone = 'Please enter a valid phone number';
+  if (role === 'doctor') {
+    if (!data.specialization) fields.specialization = 'Please select a specialization';
+    if (!data.licenseNumber || data.licenseNumber.length < 5) fields.licenseNumber = 'Please enter a valid license number';
+  }
+  return Object.keys(fields).length ? fields : null;
+}
+
+function register(data: PatientRegistration, extra: Partial<UserRecord> & Pick<UserRecord, 'role'>) {
+  const record: UserRecord = {
+    id: randomUUID(),
+    email: data.email,
+    name: data.name,
+    phone: data.phone,
+    avatar: avatarFor(data.email),
+    passwordHash: hashPassword(data.password),
+    emailVerified: false,
+    ...extra,
+  };
+  db.users.push(record);
+  return record;
+}
+
+// New accounts can't sign in until the emailed code is entered (see /auth/verify-email)
+async function sendVerification(ctx: Context, record: UserRecord, status: number) {
+  const sent = await sendCode(ctx, 'email_verification', record.id, record.email, record.email);
+  if (sent) send(ctx.res, status, sent);
+}
+
+export function authRoutes(router: Router) {
+  router.add('POST', '/auth/login', ({ res, body }) => {
+    const { email, password, role } = (body ?? {}) as Partial<LoginPayload>;
+    const record = email ? findUserByEmail(email) : undefined;
+
+    if (!record || !password || !checkPassword(record, password)) {
+      return fail(res, 401, 'INVALID_CREDENTIALS', 'Invalid email or password', {
+        password: 'Invalid email or password',
+      });
+    }
+    if (record.role !== role) {
+      const message = `This account is registered as a ${record.role}`;
+      return fail(res, 403, 'ROLE_MISMATCH', message, { role: message });
+    }
+    if (record.emailVerified === false) {
+      return fail(res, 403, 'EMAIL_NOT_VERIFIED', 'Please verify your email address before signing in');
+    }
+    send(res, 200, issue(record));
+  });
+
+  router.add('POST', '/auth/refresh', ({ res, body }) => {
+    const { refreshToken } = (body ?? {}) as { refreshToken?: string };
+    const userId = refreshToken ? redeemRefreshToken(refreshToken) : null;
+    const record = userId ? db.users.find((u) => u.id === userId) : undefined;
+
+    if (!record) {
+      return fail(res, 401, 'SESSION_EXPIRED', 'Your session has expired');
+    }
+    send(res, 200, tokensFor(record));
+  });
+
+  router.add('POST', '/auth/register/patient', async (ctx) => {
+    const { res, body } = ctx;
+    const data = (body ?? {}) as PatientRegistration;
+    const invalid = validateRegistration(data, 'patient');
+    if (invalid) return fail(res, 400, 'VALIDATION', 'Please correct the highlighted fields', invalid);
+    if (findUserByEmail(data.email)) {
+      return fail(res, 409, 'EMAIL_TAKEN', 'An account with this email already exists', {
+        email: 'An account with this email already exists',
+      });
+    }
+    await sendVerification(ctx, register(data, { role: 'patient' }), 201);
+  });
+
+  router.add('POST', '/auth/register/doctor', async (ctx) => {
+    const { res, body } = ctx;
+    const data = (body ?? {}) as DoctorRegistration;
+    const invalid = validateRegistration(data, 'doctor');
+    if (invalid) return fail(res, 400, 'VALIDATION', 'Please correct the highlighted fields', invalid);
+    if (findUserByEmail(data.email)) {
+      return fail(res, 409, 'EMAIL_TAKEN', 'An account with this email already exists', {
+        email: 'An account with this email already exists',
+      });
+    }
+    const record = register(data, {
+      role: 'doctor',
+      specialization: data.specialization,
+      licenseNumber: data.licenseNumber,
+      // Kept out of the directory until an admin has checked the license (see routes/licenses.ts)
+      verificationStatus: 'pending_verification',
+      licenseDocuments: [],
+    });
+    await sendVerification(ctx, record, 201);
+  });
+
+  router.add('POST', '/auth/verify-email', (ctx) => {
+    const body = parseBody(ctx, emailVerificationSchema, 'Invalid code');
+    if (!body) return;
+
+    const record = findUserByEmail(body.email);
+    const result = record ? redeemCode('email_verification', record.id, body.code) : null;
+    if (!record || !result?.ok) {
+      const message = codeFailureMessage(result && !result.ok ? result.reason : 'missing');
+      return fail(ctx.res, 400, 'INVALID_CODE', message, { code: message });
+    }
+    record.emailVerified = true;
+    send(ctx.res, 200, issue(record));
+  });
+
+  router.add('POST', '/auth/verify-email/resend', async (ctx) => {
+    const body = parseBody(ctx, emailVerificationSchema.pick({ email: true }), 'Invalid email');
+    if (!body) return;
+
+    const record = findUserByEmail(body.email);
+    if (!record || record.emailVerified !== false) {
+      return fail(ctx.res, 400, 'VALIDATION', 'There is no unverified account with this email', {
+        email: 'There is no unverified account with this email',
+      });
+    }
+    await sendVerification(ctx, record, 202);
+  });
+
+  // Always answers as if the account exists, so the form can't be used to find out who has one
+  router.add('POST', '/auth/password/forgot', async (ctx) => {
+    const body = parseBody(ctx, passwordResetRequestSchema, 'Invalid email');
+    if (!body) return;
+
+    const record = findUserByEmail(body.email);
+    const key = body.email.toLowerCase();
+    const sent = await sendCode(ctx, 'password_reset', key, record?.id ?? '', body.email, Boolean(record));
+    if (sent) send(ctx.res, 202, sent);
+  });
+
+  router.add('POST', '/auth/password/reset', (ctx) => {
+    const body = parseBody(ctx, passwordResetSchema, 'Invalid password reset');
+    if (!body) return;
+
+    const result = redeemCode('password_reset', body.email.toLowerCase(), body.code);
+    const record = result.ok ? db.users.find((u) => u.id === result.target) : undefined;
+    if (!record) {
+      const message = codeFailureMessage(result.ok ? 'missing' : result.reason);
+      return fail(ctx.res, 400, 'INVALID_CODE', message, { code: message });
+    }
+    record.passwordHash = hashPassword(body.newPassword);
+    // Whoever had the old password may still be signed in somewhere
+    revokeRefreshTokens(record.id);
+    // Getting the code proves they own the address
+    record.emailVerified = true;
+    send(ctx.res, 204);
+  });
+}
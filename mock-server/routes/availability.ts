@@ -0,0 +1,37 @@
+import { availabilitySchema, DEFAULT_AVAILABILITY } from '../../src/app/(app)/lib/availability';
+import { db } from '../db';
+import { fail, send, type Router } from '../http';
+import { requireUser } from '../session';
+
+export function availabilityFor(doctorId: string) {
+  return db.availability[doctorId] ?? DEFAULT_AVAILABILITY;
+}
+
+export function availabilityRoutes(router: Router) {
+  router.add('GET', '/doctors/me/availability', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    if (!user) return;
+    send(ctx.res, 200, availabilityFor(user.id));
+  });
+
+  router.add('PUT', '/doctors/me/availability', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    if (!user) return;
+
+    const parsed = availabilitySchema.safeParse(ctx.body);
+    if (!parsed.success) {
+      const fields = Object.fromEntries(parsed.error.issues.map((issue) => [issue.path.join('.'), issue.message]));
+      return fail(ctx.res, 400, 'VALIDATION', parsed.error.issues[0]?.message ?? 'Invalid availability', fields);
+    }
+    db.availability[user.id] = parsed.data;
+    send(ctx.res, 200, parsed.data);
+  });
+
+  router.add('GET', '/doctors/:id/availability', (ctx) => {
+    if (!requireUser(ctx)) return;
+    if (!db.users.some((u) => u.id === ctx.params.id && u.role === 'doctor')) {
+      return fail(ctx.res, 404, 'NOT_FOUND', 'Doctor not found');
+    }
+    send(ctx.res, 200, availabilityFor(ctx.params.id));
+  });
+}
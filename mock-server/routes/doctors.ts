@@ -0,0 +1,62 @@
+import { doctorProfileSchema } from '../../src/app/(app)/lib/profiles';
+import type { Doctor, DoctorSort } from '../../src/types/types';
+import { db, isListedDoctor, toDoctor, toDoctorProfile } from '../db';
+import { parseBody, send, type Router } from '../http';
+import { requireUser } from '../session';
+
+const SORTS: Record<DoctorSort, (a: Doctor, b: Doctor) => number> = {
+  rating: (a, b) => b.rating - a.rating,
+  experience: (a, b) => b.experience - a.experience,
+  fee: (a, b) => a.consultationFee - b.consultationFee,
+  name: (a, b) => a.name.localeCompare(b.name),
+};
+
+export function doctorRoutes(router: Router) {
+  router.add('GET', '/doctors', ({ res, query }) => {
+    const text = (query.get('query') ?? '').trim().toLowerCase();
+    const specialization = query.get('specialization') ?? '';
+    const sort = (query.get('sort') ?? 'rating') as DoctorSort;
+    const pageSize = Math.min(Math.max(Number(query.get('pageSize')) || 6, 1), 50);
+
+    const matches = db.users
+      .filter(isListedDoctor)
+      .map(toDoctor)
+      .filter((d) => !specialization || d.specialization === specialization)
+      .filter((d) => !text || d.name.toLowerCase().includes(text) || d.specialization.toLowerCase().includes(text))
+      .sort(SORTS[sort] ?? SORTS.rating);
+
+    const totalPages = Math.max(Math.ceil(matches.length / pageSize), 1);
+    const page = Math.min(Math.max(Number(query.get('page')) || 1, 1), totalPages);
+
+    send(res, 200, {
+      items: matches.slice((page - 1) * pageSize, page * pageSize),
+      page,
+      pageSize,
+      total: matches.length,
+      totalPages,
+    });
+  });
+
+  router.add('GET', '/doctors/me/profile', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    if (!user) return;
+    send(ctx.res, 200, toDoctorProfile(user));
+  });
+
+  router.add('PUT', '/doctors/me/profile', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    if (!user) return;
+
+    const profile = parseBody(ctx, doctorProfileSchema, 'Invalid profile');
+    if (!profile) return;
+    Object.assign(user, profile);
+
+    // Appointments carry a copy of the doctor's card for the patient's list
+    for (const appointment of db.appointments) {
+      if (appointment.doctorId !== user.id) continue;
+      appointment.doctorSpecialization = user.specialization;
+      appointment.doctorAvatar = user.photo_url || user.avatar;
+    }
+    send(ctx.res, 200, toDoctorProfile(user));
+  });
+}
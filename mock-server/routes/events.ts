@@ -0,0 +1,13 @@
+import { EVENTS_PATH } from '../../src/app/(app)/lib/events';
+import { openStream } from '../events';
+import { fail, type Router } from '../http';
+import { userFromToken } from '../session';
+
+export function eventRoutes(router: Router) {
+  // Long-lived text/event-stream; closes when the client disconnects
+  router.add('GET', EVENTS_PATH, (ctx) => {
+    const user = userFromToken(ctx.query.get('token') ?? '');
+    if (!user) return fail(ctx.res, 401, 'UNAUTHORIZED', 'Your session has expired. Please sign in again.');
+    openStream(ctx.res, user.id);
+  });
+}
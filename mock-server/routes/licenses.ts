@@ -0,0 +1,130 @@
+import { randomUUID } from 'node:crypto';
+import {
+  canEditDocuments,
+  licenseUploadSchema,
+  MAX_LICENSE_DOCUMENTS,
+  reviewDecisionSchema,
+  VERIFICATION_STATUSES,
+  type VerificationStatus,
+} from '../../src/app/(app)/lib/licenses';
+import { db, toVerification, toVerificationRequest, verificationStatusOf, type UserRecord } from '../db';
+import { fail, parseBody, send, type Context, type Router } from '../http';
+import { notifyLicenseReview } from '../notifications';
+import { requireUser } from '../session';
+
+function findDoctor(ctx: Context) {
+  const doctor = db.users.find((u) => u.id === ctx.params.doctorId && u.role === 'doctor');
+  if (!doctor) fail(ctx.res, 404, 'NOT_FOUND', 'Doctor not found');
+  return doctor;
+}
+
+function findDocument(ctx: Context, doctor: UserRecord) {
+  const document = doctor.licenseDocuments?.find((d) => d.id === ctx.params.documentId);
+  if (!document) fail(ctx.res, 404, 'NOT_FOUND', 'Document not found');
+  return document;
+}
+
+// Documents are locked once the license is approved; answers 409 in that case
+function requireEditable(ctx: Context, doctor: UserRecord) {
+  if (canEditDocuments(verificationStatusOf(doctor))) return true;
+  fail(ctx.res, 409, 'ALREADY_VERIFIED', 'Your license is already verified');
+  return false;
+}
+
+// Upload time of the doctor's oldest document, so the queue can put whoever has waited longest first
+function waitingSince(doctor: UserRecord) {
+  const times = (doctor.licenseDocuments ?? []).map((d) => Date.parse(d.uploadedAt));
+  return times.length ? Math.min(...times) : Infinity;
+}
+
+export function licenseRoutes(router: Router) {
+  router.add('GET', '/doctors/me/verification', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    if (!user) return;
+    send(ctx.res, 200, toVerification(user));
+  });
+
+  router.add('GET', '/doctors/me/verification/documents/:documentId', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    const document = user && findDocument(ctx, user);
+    if (!document) return;
+    send(ctx.res, 200, document);
+  });
+
+  // Uploading after a rejection sends the license back for review
+  router.add('POST', '/doctors/me/verification/documents', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    if (!user || !requireEditable(ctx, user)) return;
+
+    const upload = parseBody(ctx, licenseUploadSchema, 'Invalid document');
+    if (!upload) return;
+    const documents = user.licenseDocuments ?? [];
+    if (documents.length >= MAX_LICENSE_DOCUMENTS) {
+      return fail(ctx.res, 409, 'TOO_MANY_DOCUMENTS', `You can upload at most ${MAX_LICENSE_DOCUMENTS} documents`);
+    }
+
+    user.licenseDocuments = [
+      ...documents,
+      {
+        id: randomUUID(),
+        name: upload.name,
+        type: upload.type,
+        size: Buffer.byteLength(upload.dataUrl.slice(upload.dataUrl.indexOf(',') + 1), 'base64'),
+        uploadedAt: new Date().toISOString(),
+        dataUrl: upload.dataUrl,
+      },
+    ];
+    user.verificationStatus = 'pending_verification';
+    send(ctx.res, 201, toVerification(user));
+  });
+
+  router.add('DELETE', '/doctors/me/verification/documents/:documentId', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    const document = user && requireEditable(ctx, user) && findDocument(ctx, user);
+    if (!user || !document) return;
+
+    user.licenseDocuments = user.licenseDocuments?.filter((d) => d !== document);
+    send(ctx.res, 200, toVerification(user));
+  });
+
+  // Defaults to the doctors waiting on a decision, longest-waiting first
+  router.add('GET', '/admin/verifications', (ctx) => {
+    if (!requireUser(ctx, 'admin')) return;
+
+    const status = (ctx.query.get('status') ?? 'pending_verification') as VerificationStatus;
+    if (!VERIFICATION_STATUSES.includes(status)) {
+      return fail(ctx.res, 400, 'VALIDATION', 'Unknown verification status', { status: 'Unknown verification status' });
+    }
+    const doctors = db.users
+      .filter((u) => u.role === 'doctor' && verificationStatusOf(u) === status)
+      .sort((a, b) => waitingSince(a) - waitingSince(b) || a.name.localeCompare(b.name));
+    send(ctx.res, 200, doctors.map(toVerificationRequest));
+  });
+
+  router.add('GET', '/admin/verifications/:doctorId/documents/:documentId', (ctx) => {
+    const doctor = requireUser(ctx, 'admin') && findDoctor(ctx);
+    const document = doctor && findDocument(ctx, doctor);
+    if (!document) return;
+    send(ctx.res, 200, document);
+  });
+
+  router.add('POST', '/admin/verifications/:doctorId/review', (ctx) => {
+    const doctor = requireUser(ctx, 'admin') && findDoctor(ctx);
+    if (!doctor) return;
+
+    const decision = parseBody(ctx, reviewDecisionSchema, 'Invalid decision');
+    if (!decision) return;
+    if (verificationStatusOf(doctor) !== 'pending_verification') {
+      return fail(ctx.res, 409, 'ALREADY_REVIEWED', `${doctor.name}'s license has already been reviewed`);
+    }
+    if (!doctor.licenseDocuments?.length) {
+      return fail(ctx.res, 409, 'NO_DOCUMENTS', `${doctor.name} hasn't uploaded any license documents yet`);
+    }
+
+    const review = { ...decision, reviewedAt: new Date().toISOString() };
+    doctor.licenseReview = review;
+    doctor.verificationStatus = decision.decision === 'approved' ? 'verified' : 'rejected';
+    notifyLicenseReview(doctor, review);
+    send(ctx.res, 200, toVerificationRequest(doctor));
+  });
+}
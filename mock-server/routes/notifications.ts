@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { fail, send, type Router } from '../http';
+import { toNotificationView } from '../notifications';
+import { requireUser } from '../session';
+
+export function notificationRoutes(router: Router) {
+  router.add('GET', '/notifications', (ctx) => {
+    const user = requireUser(ctx);
+    if (!user) return;
+    const own = db.notifications.filter((n) => n.userId === user.id);
+    send(ctx.res, 200, { items: own.map(toNotificationView), unread: own.filter((n) => !n.readAt).length });
+  });
+
+  router.add('POST', '/notifications/read-all', (ctx) => {
+    const user = requireUser(ctx);
+    if (!user) return;
+    const now = new Date().toISOString();
+    for (const notification of db.notifications) {
+      if (notification.userId === user.id && !notification.readAt) notification.readAt = now;
+    }
+    send(ctx.res, 204);
+  });
+
+  router.add('PATCH', '/notifications/:id/read', (ctx) => {
+    const user = requireUser(ctx);
+    if (!user) return;
+    const notification = db.notifications.find((n) => n.id === ctx.params.id && n.userId === user.id);
+    if (!notification) return fail(ctx.res, 404, 'NOT_FOUND', 'Notification not found');
+    notification.readAt ??= new Date().toISOString();
+    send(ctx.res, 200, toNotificationView(notification));
+  });
+}
@@ -0,0 +1,22 @@
+import { patientProfileSchema } from '../../src/app/(app)/lib/profiles';
+import { db, patientProfileFor } from '../db';
+import { parseBody, send, type Router } from '../http';
+import { requireUser } from '../session';
+
+export function patientRoutes(router: Router) {
+  router.add('GET', '/patients/me/profile', (ctx) => {
+    const user = requireUser(ctx, 'patient');
+    if (!user) return;
+    send(ctx.res, 200, patientProfileFor(user.id));
+  });
+
+  router.add('PUT', '/patients/me/profile', (ctx) => {
+    const user = requireUser(ctx, 'patient');
+    if (!user) return;
+
+    const profile = parseBody(ctx, patientProfileSchema, 'Invalid profile');
+    if (!profile) return;
+    db.patientProfiles[user.id] = profile;
+    send(ctx.res, 200, profile);
+  });
+}
@@ -0,0 +1,75 @@
+import { canPrescribe, prescriptionSchema } from '../../src/app/(app)/lib/prescriptions';
+import { canRecordVisit, visitRecordSchema } from '../../src/app/(app)/lib/records';
+import { db, patientProfileFor, toPublicUser } from '../db';
+import { fail, parseBody, send, type Context, type Router } from '../http';
+import { requireUser } from '../session';
+import { publishAppointment, toDoctorView } from './appointments';
+
+function findDoctorsAppointment(ctx: Context, doctorId: string) {
+  const appointment = db.appointments.find((a) => a.id === ctx.params.id && a.doctorId === doctorId);
+  if (!appointment) fail(ctx.res, 404, 'NOT_FOUND', 'Appointment not found');
+  return appointment;
+}
+
+// Only patients the doctor has actually seen or booked are visible
+function findDoctorsPatient(ctx: Context, doctorId: string) {
+  const appointments = db.appointments
+    .filter((a) => a.doctorId === doctorId && a.patientId === ctx.params.patientId)
+    .sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+  const patient = db.users.find((u) => u.id === ctx.params.patientId && u.role === 'patient');
+  if (!patient || appointments.length === 0) {
+    fail(ctx.res, 404, 'NOT_FOUND', 'Patient not found');
+    return null;
+  }
+  return { patient, appointments };
+}
+
+export function recordRoutes(router: Router) {
+  router.add('PUT', '/appointments/:id/record', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    const appointment = user && findDoctorsAppointment(ctx, user.id);
+    if (!appointment) return;
+    if (!canRecordVisit(appointment)) {
+      return fail(ctx.res, 409, 'INVALID_TRANSITION', `Visit notes can't be added to a ${appointment.status} appointment`);
+    }
+
+    const record = parseBody(ctx, visitRecordSchema, 'Invalid visit notes');
+    if (!record) return;
+    appointment.record = { ...record, updatedAt: new Date().toISOString() };
+    publishAppointment(appointment);
+    send(ctx.res, 200, toDoctorView(appointment));
+  });
+
+  router.add('PUT', '/appointments/:id/prescription', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    const appointment = user && findDoctorsAppointment(ctx, user.id);
+    if (!appointment) return;
+    if (!canPrescribe(appointment)) {
+      return fail(ctx.res, 409, 'INVALID_TRANSITION', 'Prescriptions can only be written for completed appointments');
+    }
+
+    const prescription = parseBody(ctx, prescriptionSchema, 'Invalid prescription');
+    if (!prescription) return;
+    const now = new Date().toISOString();
+    appointment.prescription = { ...prescription, issuedAt: appointment.prescription?.issuedAt ?? now, updatedAt: now };
+    publishAppointment(appointment);
+    send(ctx.res, 200, toDoctorView(appointment));
+  });
+
+  router.add('GET', '/doctors/me/patients/:patientId', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    const found = user && findDoctorsPatient(ctx, user.id);
+    if (!found) return;
+
+    const { id, name, email, phone, avatar } = toPublicUser(found.patient);
+    send(ctx.res, 200, { patient: { id, name, email, phone, avatar }, appointments: found.appointments.map(toDoctorView) });
+  });
+
+  // The patient's own intake form, read-only for the doctor
+  router.add('GET', '/doctors/me/patients/:patientId/profile', (ctx) => {
+    const user = requireUser(ctx, 'doctor');
+    const found = user && findDoctorsPatient(ctx, user.id);
+    if (!found) return;
+    send(ctx.res, 200, patientProfileFor(found.patient.id));
+  });
+}
@@ -0,0 +1,30 @@
+import { reminderPreferencesSchema } from '../../src/app/(app)/lib/reminders';
+import { db } from '../db';
+import { fail, send, type Router } from '../http';
+import { reminderPreferencesFor } from '../reminders';
+import { requireUser } from '../session';
+
+export function reminderRoutes(router: Router) {
+  router.add('GET', '/patients/me/reminders', (ctx) => {
+    const user = requireUser(ctx, 'patient');
+    if (!user) return;
+    send(ctx.res, 200, reminderPreferencesFor(user.id));
+  });
+
+  router.add('PUT', '/patients/me/reminders', (ctx) => {
+    const user = requireUser(ctx, 'patient');
+    if (!user) return;
+
+    const parsed = reminderPreferencesSchema.safeParse(ctx.body);
+    if (!parsed.success) {
+      return fail(ctx.res, 400, 'VALIDATION', 'Invalid reminder settings');
+    }
+    if (parsed.data.sms && !user.phone?.trim()) {
+      return fail(ctx.res, 400, 'VALIDATION', 'Add a phone number to get SMS reminders', {
+        sms: 'Add a phone number to get SMS reminders',
+      });
+    }
+    db.reminderPreferences[user.id] = parsed.data;
+    send(ctx.res, 200, parsed.data);
+  });
+}
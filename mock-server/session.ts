@@ -0,0 +1,38 @@
+import type { AppointmentActor } from '../src/app/(app)/lib/appointments';
+import type { User } from '../src/app/(app)/store/authStor';
+import { db, type UserRecord } from './db';
+import { fail, type Context } from './http';
+import { verifyToken } from './token';
+
+export function userFromToken(token: string) {
+  const claims = verifyToken(token);
+  return claims ? db.users.find((u) => u.id === claims.sub) : undefined;
+}
+
+// Resolves the bearer token to a user, or answers 401/403 and returns null
+export function requireUser<R extends User['role']>(ctx: Context, role?: R): (UserRecord & { role: R }) | null {
+  const header = ctx.req.headers.authorization ?? '';
+  const user = header.startsWith('Bearer ') ? userFromToken(header.slice(7)) : undefined;
+
+  if (!user) {
+    fail(ctx.res, 401, 'UNAUTHORIZED', 'Your session has expired. Please sign in again.');
+    return null;
+  }
+  if (role && user.role !== role) {
+    fail(ctx.res, 403, 'FORBIDDEN', `Only ${role}s can do this`);
+    return null;
+  }
+  return user as UserRecord & { role: R };
+}
+
+export type Participant = UserRecord & { role: AppointmentActor };
+
+// Like requireUser, for the patient-or-doctor routes; admins have no appointments or health data of their own
+export function requireParticipant(ctx: Context): Participant | null {
+  const user = requireUser(ctx);
+  if (user && user.role === 'admin') {
+    fail(ctx.res, 403, 'FORBIDDEN', 'Only patients and doctors can do this');
+    return null;
+  }
+  return user as Participant | null;
+}
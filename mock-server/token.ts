@@ -0,0 +1,65 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { User } from '../src/app/(app)/store/authStor';
+
+const SECRET = process.env.MOCK_API_SECRET ?? 'medicare-mock-secret';
+
+// Short values make it easy to exercise the client's refresh-on-401 path
+const ACCESS_TTL = Number(process.env.MOCK_API_TOKEN_TTL ?? 60 * 60);
+
+export interface TokenClaims {
+  sub: string;
+  role: User['role'];
+  exp: number; // seconds since epoch
+}
+
+function encode(value: object) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signature(data: string) {
+  return createHmac('sha256', SECRET).update(data).digest('base64url');
+}
+
+// HS256 JWT so the client can decode `exp` exactly as it would against the real API
+export function signToken(claims: Omit<TokenClaims, 'exp'>, ttlSeconds = ACCESS_TTL) {
+  const head = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    ...claims,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  })}`;
+  return `${head}.${signature(head)}`;
+}
+
+export function verifyToken(token: string): TokenClaims | null {
+  const [header, payload, sig] = token.split('.');
+  if (!header || !payload || !sig) return null;
+
+  const expected = Buffer.from(signature(`${header}.${payload}`));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as TokenClaims;
+  return claims.exp * 1000 > Date.now() ? claims : null;
+}
+
+// Opaque, single-use refresh tokens mapped to the user they were issued to
+const refreshTokens = new Map<string, string>();
+
+export function issueRefreshToken(userId: string) {
+  const token = randomBytes(32).toString('base64url');
+  refreshTokens.set(token, userId);
+  return token;
+}
+
+// Consumes the token; returns its user id, or null if it was unknown or already used
+export function redeemRefreshToken(token: string) {
+  const userId = refreshTokens.get(token) ?? null;
+  refreshTokens.delete(token);
+  return userId;
+}
+
+// Signs the user out everywhere but the session holding `keep`, once their access tokens run out
+export function revokeRefreshTokens(userId: string, keep?: string) {
+  for (const [token, owner] of refreshTokens) {
+    if (owner === userId && token !== keep) refreshTokens.delete(token);
+  }
+}
@@ -0,0 +1,116 @@
+import { randomInt } from 'node:crypto';
+import { CODE_LENGTH, type PendingVerification } from '../src/app/(app)/lib/account';
+import { send, type Context } from './http';
+import { providers } from './providers';
+
+// One-time codes sent by email. Each purpose keeps at most one live code per key (a user id, or the
+// address for password resets); asking again replaces it.
+
+export type CodePurpose = 'email_change' | 'email_verification' | 'password_reset';
+
+interface PendingCode {
+  code: string;
+  target: string; // what the code confirms, e.g. the new address
+  expiresAt: number;
+  attemptsLeft: number;
+}
+
+const CODE_TTL = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+// Between two sends to the same key, and how many sends a key gets per hour
+const RESEND_COOLDOWN = Number(process.env.MOCK_CODE_COOLDOWN_SECONDS ?? 60) * 1000;
+const MAX_SENDS_PER_HOUR = 5;
+const HOUR = 60 * 60 * 1000;
+
+const pending = new Map<string, PendingCode>();
+const sends = new Map<string, number[]>(); // send times in the last hour, oldest first
+
+type IssueResult =
+  | { ok: true; code: string; expiresAt: number; resendAt: number }
+  | { ok: false; retryAfter: number }; // seconds
+
+function issueCode(purpose: CodePurpose, key: string, target: string): IssueResult {
+  const id = `${purpose}:${key}`;
+  const now = Date.now();
+  const recent = (sends.get(id) ?? []).filter((at) => at > now - HOUR);
+
+  const last = recent[recent.length - 1];
+  const waitUntil = Math.max(
+    last === undefined ? 0 : last + RESEND_COOLDOWN,
+    recent.length >= MAX_SENDS_PER_HOUR ? recent[0] + HOUR : 0
+  );
+  if (waitUntil > now) return { ok: false, retryAfter: Math.ceil((waitUntil - now) / 1000) };
+
+  const entry: PendingCode = {
+    code: String(randomInt(0, 10 ** CODE_LENGTH)).padStart(CODE_LENGTH, '0'),
+    target,
+    expiresAt: now + CODE_TTL,
+    attemptsLeft: MAX_ATTEMPTS,
+  };
+  pending.set(id, entry);
+  sends.set(id, [...recent, now]);
+  return { ok: true, code: entry.code, expiresAt: entry.expiresAt, resendAt: now + RESEND_COOLDOWN };
+}
+
+export type RedeemResult = { ok: true; target: string } | { ok: false; reason: 'missing' | 'expired' | 'mismatch' };
+
+// Consumes the code on success. Wrong guesses use up attempts; the last one discards the code.
+export function redeemCode(purpose: CodePurpose, key: string, code: string): RedeemResult {
+  const id = `${purpose}:${key}`;
+  const entry = pending.get(id);
+  if (!entry) return { ok: false, reason: 'missing' };
+  if (entry.expiresAt <= Date.now()) {
+    pending.delete(id);
+    return { ok: false, reason: 'expired' };
+  }
+  if (entry.code !== code) {
+    entry.attemptsLeft -= 1;
+    if (entry.attemptsLeft <= 0) pending.delete(id);
+    return { ok: false, reason: 'mismatch' };
+  }
+  pending.delete(id);
+  return { ok: true, target: entry.target };
+}
+
+export function codeFailureMessage(reason: 'missing' | 'expired' | 'mismatch') {
+  return reason === 'mismatch' ? 'That code is incorrect' : 'That code has expired. Please request a new one.';
+}
+
+const EMAILS: Record<CodePurpose, { subject: string; intro: string }> = {
+  email_change: { subject: 'Confirm your new email address', intro: 'Use this code to confirm your new email address' },
+  email_verification: { subject: 'Verify your email address', intro: 'Use this code to finish creating your account' },
+  password_reset: { subject: 'Reset your password', intro: 'Use this code to choose a new password' },
+};
+
+// Issues a code and emails it to `to`. Answers 429 with `retryAfter` (seconds) and returns null when the
+// key is cooling down or has used up its sends for the hour. With `deliver: false` the code is issued,
+// and counts against the limits, but never sent, so unknown addresses get the same answers as real ones.
+export async function sendCode(
+  ctx: Context,
+  purpose: CodePurpose,
+  key: string,
+  target: string,
+  to: string,
+  deliver = true
+): Promise<PendingVerification | null> {
+  const issued = issueCode(purpose, key, target);
+  if (!issued.ok) {
+    send(ctx.res, 429, {
+      code: 'RATE_LIMITED',
+      message: `Please wait ${issued.retryAfter} seconds before requesting another code`,
+      retryAfter: issued.retryAfter,
+    });
+    return null;
+  }
+
+  const { subject, intro } = EMAILS[purpose];
+  if (deliver) {
+    await providers.email.send({
+      to,
+      subject,
+      body: `${intro}: ${issued.code}\n\nIt expires in ${CODE_TTL / 60_000} minutes. If you didn't ask for it, you can ignore this email.\n\nMediCare`,
+    });
+  }
+  return { sentTo: to, expiresAt: new Date(issued.expiresAt).toISOString(), resendAt: new Date(issued.resendAt).toISOString() };
+}
@@ -1,37 +1,82 @@
-import React from "react";
-
-import { Routes, Route, Navigate } from "react-router-dom";
-import Index from "./app/(app)/pages/Index";
-import Login from "./app/(app)/pages/Login";
-import Register from "./app/(app)/pages/Register";
-import PatientDashboard from "./app/(app)/pages/patient/Dashboard";
-import DoctorDashboard from "./app/(app)/pages/doctor/Dashboard";
+import React, { Suspense, lazy, useEffect } from "react";
+
+import { Routes, Route, Navigate, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { AppShell } from "./app/(app)/components/layout/AppShell";
+import { PageLoader } from "./app/(app)/components/layout/PageLoader";
 import ProtectedRoute from "./app/(app)/pages/ProtectedRoute";
-import NotFound from "./app/(app)/pages/NotFound";
+import { setSessionExpiredHandler } from "./app/(app)/lib/http";
+
+// Every page is its own chunk
+const Index = lazy(() => import("./app/(app)/pages/Index"));
+const Login = lazy(() => import("./app/(app)/pages/Login"));
+const Register = lazy(() => import("./app/(app)/pages/Register"));
+const VerifyEmail = lazy(() => import("./app/(app)/pages/VerifyEmail"));
+const ForgotPassword = lazy(() => import("./app/(app)/pages/ForgotPassword"));
+const PatientDashboard = lazy(() => import("./app/(app)/pages/patient/Dashboard"));
+const PatientAppointments = lazy(() => import("./app/(app)/pages/patient/Appointments"));
+const PatientProfile = lazy(() => import("./app/(app)/pages/patient/Profile"));
+const DoctorDashboard = lazy(() => import("./app/(app)/pages/doctor/Dashboard"));
+const DoctorAvailability = lazy(() => import("./app/(app)/pages/doctor/Availability"));
+const DoctorProfile = lazy(() => import("./app/(app)/pages/doctor/Profile"));
+const DoctorVerification = lazy(() => import("./app/(app)/pages/doctor/Verification"));
+const PatientHistory = lazy(() => import("./app/(app)/pages/doctor/PatientHistory"));
+const AdminDashboard = lazy(() => import("./app/(app)/pages/admin/Dashboard"));
+const Settings = lazy(() => import("./app/(app)/pages/Settings"));
+const NotFound = lazy(() => import("./app/(app)/pages/NotFound"));
 
 export default function App() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // When the HTTP client can't renew the session, drop the signed-out user's data, go to login and come
+  // back here afterwards
+  useEffect(() => {
+    setSessionExpiredHandler(() => {
+      queryClient.clear();
+      const { pathname, search, hash } = window.location;
+      navigate("/login", { replace: true, state: { from: { pathname, search, hash } } });
+    });
+  }, [navigate, queryClient]);
+
   return (
-    <Routes>
-      <Route path="/" element={<Index />} />
-      <Route path="/login" element={<Login />} />
-      <Route path="/register" element={<Register />} />
-      <Route
-        path="/patient/dashboard"
-        element={
-          <ProtectedRoute requiredRole="patient">
-            <PatientDashboard />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/doctor/dashboard"
-        element={
-          <ProtectedRoute requiredRole="doctor">
-            <DoctorDashboard />
-          </ProtectedRoute>
-        }
-      />
-      <Route path="*" element={<NotFound />} />
-    </Routes>
+    <Suspense fallback={<PageLoader />}>
+      <Routes>
+        {/* Full-screen auth pages, no navbar */}
+        <Route path="/login" element={<Login />} />
+        <Route path="/register" element={<Register />} />
+        <Route path="/verify-email" element={<VerifyEmail />} />
+        <Route path="/forgot-password" element={<ForgotPassword />} />
+
+        <Route element={<AppShell />}>
+          <Route index element={<Index />} />
+
+          <Route path="patient" element={<ProtectedRoute requiredRole="patient" />}>
+            <Route index element={<Navigate to="dashboard" replace />} />
+            <Route path="dashboard" element={<PatientDashboard />} />
+            <Route path="appointments" element={<PatientAppointments />} />
+            <Route path="profile" element={<PatientProfile />} />
+            <Route path="settings" element={<Settings />} />
+          </Route>
+
+          <Route path="doctor" element={<ProtectedRoute requiredRole="doctor" />}>
+            <Route index element={<Navigate to="dashboard" replace />} />
+            <Route path="dashboard" element={<DoctorDashboard />} />
+            <Route path="availability" element={<DoctorAvailability />} />
+            <Route path="profile" element={<DoctorProfile />} />
+            <Route path="settings" element={<Settings />} />
+            <Route path="verification" element={<DoctorVerification />} />
+            <Route path="patients/:patientId" element={<PatientHistory />} />
+          </Route>
+
+          <Route path="admin" element={<ProtectedRoute requiredRole="admin" />}>
+            <Route index element={<Navigate to="dashboard" replace />} />
+            <Route path="dashboard" element={<AdminDashboard />} />
+          </Route>
+        </Route>
+
+        <Route path="*" element={<NotFound />} />
+      </Routes>
+    </Suspense>
   );
 }
@@ -7,7 +7,6 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '../ui/button';
 import { Label } from '../ui/label';
 import { Textarea } from '../ui/textarea';
-import { Calendar } from '../ui/calendar';
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
 import { Badge } from '../ui/badge';
 import {
@@ -17,56 +16,39 @@ import {
   DialogHeader,
   DialogTitle,
 } from '../ui/dialog';
-import {
-  Popover,
-  PopoverContent,
-  PopoverTrigger,
-} from '../ui/popover';
+import { useDoctorAvailability } from '../../hooks/use-doctor-availability';
 import { useToast } from '../../hooks/use-toast';
 import { appointmentsAPI } from '../../lib/api';
-import { CalendarIcon, Clock, DollarSign, Loader2, Stethoscope } from 'lucide-react';
-import { cn } from '../../lib/utils';
+import { MAX_NOTES_LENGTH } from '../../lib/appointments';
+import { slotToDate, toDateKey } from '../../lib/availability';
+import { BookingConflictError } from '../../lib/errors';
+import { applyFieldErrors } from '../../lib/forms';
+import { Clock, DollarSign, Languages, Loader2, MapPin, Stethoscope } from 'lucide-react';
+import { SlotPicker } from './SlotPicker';
+import type { BookingModalProps } from '../../../../types/types';
 
 const appointmentSchema = z.object({
   date: z.date({
     required_error: 'Please select an appointment date',
   }),
   time: z.string().min(1, 'Please select an appointment time'),
-  notes: z.string().optional(),
+  notes: z.string().max(MAX_NOTES_LENGTH, `Keep notes under ${MAX_NOTES_LENGTH} characters`).optional(),
 });
 
 type AppointmentForm = z.infer<typeof appointmentSchema>;
 
-interface Doctor {
-  id: string;
-  name: string;
-  specialization: string;
-  consultationFee: number;
-  avatar: string;
-  rating: number;
-  experience: number;
-}
-
-interface BookAppointmentModalProps {
-  doctor: Doctor | null;
-  isOpen: boolean;
-  onClose: () => void;
-}
-
-const timeSlots = [
-  '09:00', '09:30', '10:00', '10:30', '11:00', '11:30',
-  '14:00', '14:30', '15:00', '15:30', '16:00', '16:30', '17:00'
-];
-
-export function BookAppointmentModal({ doctor, isOpen, onClose }: BookAppointmentModalProps) {
+export function BookAppointmentModal({ doctor, isOpen, onClose, onBooked }: BookingModalProps) {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [conflict, setConflict] = useState<BookingConflictError | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { data: availability } = useDoctorAvailability(doctor?.id, isOpen);
 
   const {
     register,
     handleSubmit,
     setValue,
+    setError,
     watch,
     reset,
     formState: { errors },
@@ -84,15 +66,25 @@ export function BookAppointmentModal({ doctor, isOpen, onClose }: BookAppointmen
   const bookingMutation = useMutation({
     mutationFn: (data: { doctorId: string; date: string; notes?: string }) =>
       appointmentsAPI.bookAppointment(data),
-    onSuccess: () => {
+    onSuccess: (appointment) => {
       toast({
         title: 'Appointment Booked!',
-        description: 'Your appointment has been successfully scheduled. You will receive a confirmation email shortly.',
+        description: 'Your appointment has been successfully scheduled. A confirmation is on its way by email or SMS, depending on your reminder settings.',
       });
       queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['doctor-busy', doctor?.id] });
       handleClose();
+      onBooked?.(appointment.id);
     },
     onError: (error: unknown) => {
+      if (error instanceof BookingConflictError) {
+        setConflict(error);
+        setValue('time', '');
+        queryClient.invalidateQueries({ queryKey: ['doctor-busy', doctor?.id] });
+        return;
+      }
+      // The payload's `date` carries the chosen time slot
+      if (applyFieldErrors(error, setError, ['time', 'notes'], { date: 'time' })) return;
       toast({
         title: 'Booking Failed',
         description: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
@@ -102,15 +94,12 @@ export function BookAppointmentModal({ doctor, isOpen, onClose }: BookAppointmen
   });
 
   const onSubmit = (data: AppointmentForm) => {
-    if (!doctor || !selectedDate) return;
-
-    const appointmentDateTime = new Date(selectedDate);
-    const [hours, minutes] = data.time.split(':').map(Number);
-    appointmentDateTime.setHours(hours, minutes);
+    if (!doctor || !selectedDate || !availability) return;
 
     bookingMutation.mutate({
       doctorId: doctor.id,
-      date: appointmentDateTime.toISOString(),
+      // The slot is on the doctor's clock, whatever zone this browser is in
+      date: slotToDate(availability, toDateKey(selectedDate), data.time).toISOString(),
       notes: data.notes,
     });
   };
@@ -118,17 +107,18 @@ export function BookAppointmentModal({ doctor, isOpen, onClose }: BookAppointmen
   const handleClose = () => {
     reset();
     setSelectedDate(undefined);
+    setConflict(null);
     onClose();
   };
 
-  const handleDateSelect = (date?: Date) => {
-    if (date) {
-      setSelectedDate(date);
-      setValue('date', date, { shouldValidate: true });
-    }
+  const handleDateSelect = (date: Date) => {
+    setSelectedDate(date);
+    setValue('date', date, { shouldValidate: true });
+    setValue('time', '');
   };
 
   const handleTimeSelect = (time: string) => {
+    setConflict(null);
     setValue('time', time, { shouldValidate: true });
   };
 
@@ -152,7 +142,7 @@ export function BookAppointmentModal({ doctor, isOpen, onClose }: BookAppointmen
           <div className="bg-gradient-card p-4 rounded-lg">
             <div className="flex items-center space-x-4">
               <Avatar className="h-16 w-16">
-                <AvatarImage src={doctor.avatar} alt={doctor.name} />
+                <AvatarImage src={doctor.photo_url ?? doctor.avatar} alt={doctor.name} />
                 <AvatarFallback>
                   {doctor.name.split(' ').map(n => n[0]).join('')}
                 </AvatarFallback>
@@ -174,66 +164,38 @@ export function BookAppointmentModal({ doctor, isOpen, onClose }: BookAppointmen
                 </div>
               </div>
             </div>
+            {doctor.bio && <p className="mt-3 text-sm text-muted-foreground">{doctor.bio}</p>}
+            {(doctor.languages?.length || doctor.clinicAddress) && (
+              <div className="mt-3 space-y-1 text-sm text-muted-foreground">
+                {doctor.languages && doctor.languages.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    <Languages className="w-4 h-4" />
+                    {doctor.languages.join(', ')}
+                  </div>
+                )}
+                {doctor.clinicAddress && (
+                  <div className="flex items-center gap-1">
+                    <MapPin className="w-4 h-4" />
+                    {doctor.clinicAddress}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Appointment Form */}
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-            {/* Date Selection */}
-            <div className="space-y-2">
-              <Label>Select Date</Label>
-              <Popover>
-                <PopoverTrigger asChild>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    className={cn(
-                      'w-full justify-start text-left font-normal',
-                      !selectedDate && 'text-muted-foreground'
-                    )}
-                  >
-                    <CalendarIcon className="mr-2 h-4 w-4" />
-                    {selectedDate ? format(selectedDate, 'PPP') : 'Pick a date'}
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <Calendar
-                    mode="single"
-                    selected={selectedDate}
-                    onSelect={handleDateSelect}
-                    disabled={(date) =>
-                      date < new Date() || date < new Date('1900-01-01')
-                    }
-                    initialFocus
-                    className={cn('p-3 pointer-events-auto')}
-                  />
-                </PopoverContent>
-              </Popover>
-              {errors.date && (
-                <p className="text-sm text-destructive">{errors.date.message}</p>
-              )}
-            </div>
-
-            {/* Time Selection */}
-            <div className="space-y-2">
-              <Label>Select Time</Label>
-              <div className="grid grid-cols-4 gap-2">
-                {timeSlots.map((time) => (
-                  <Button
-                    key={time}
-                    type="button"
-                    variant={watchedTime === time ? 'default' : 'outline'}
-                    size="sm"
-                    onClick={() => handleTimeSelect(time)}
-                    disabled={!selectedDate}
-                  >
-                    {time}
-                  </Button>
-                ))}
-              </div>
-              {errors.time && (
-                <p className="text-sm text-destructive">{errors.time.message}</p>
-              )}
-            </div>
+            <SlotPicker
+              doctorId={doctor.id}
+              enabled={isOpen}
+              selectedDate={selectedDate}
+              selectedTime={watchedTime}
+              onDateSelect={handleDateSelect}
+              onTimeSelect={handleTimeSelect}
+              conflict={conflict}
+              dateError={errors.date?.message}
+              timeError={errors.time?.message}
+            />
 
             {/* Notes */}
             <div className="space-y-2">
@@ -243,6 +205,7 @@ export function BookAppointmentModal({ doctor, isOpen, onClose }: BookAppointmen
                 placeholder="Describe your symptoms or reason for visit..."
                 className="min-h-[100px]"
               />
+              {errors.notes && <p className="text-sm text-destructive">{errors.notes.message}</p>}
             </div>
 
             {/* Appointment Summary */}
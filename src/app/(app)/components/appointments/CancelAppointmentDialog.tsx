@@ -0,0 +1,146 @@
+import { useEffect, type ReactNode } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { CANCELLATION_REASONS, OTHER_REASON, type AppointmentActor } from '../../lib/appointments';
+import { Loader2 } from 'lucide-react';
+
+const cancelSchema = z
+  .object({
+    choice: z.string().min(1, 'Please choose a reason'),
+    details: z.string().max(500, 'Keep it under 500 characters'),
+  })
+  .refine((values) => values.choice !== OTHER_REASON || values.details.trim().length >= 3, {
+    message: 'Please tell us why',
+    path: ['details'],
+  });
+
+type CancelForm = z.infer<typeof cancelSchema>;
+
+function toReason({ choice, details }: CancelForm) {
+  const extra = details.trim();
+  if (choice === OTHER_REASON) return extra;
+  return extra ? `${choice}: ${extra}` : choice;
+}
+
+interface CancelAppointmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  actor: AppointmentActor;
+  description: ReactNode;
+  // Cancellation policy shown above the reason picker
+  policy?: ReactNode;
+  // The policy window has closed; explain it instead of offering the form
+  blocked?: boolean;
+  isPending?: boolean;
+  onConfirm: (reason: string) => void;
+}
+
+// Confirmation that asks for a reason, picked from a list or typed in
+export function CancelAppointmentDialog({
+  open,
+  onOpenChange,
+  actor,
+  description,
+  policy,
+  blocked = false,
+  isPending = false,
+  onConfirm,
+}: CancelAppointmentDialogProps) {
+  const {
+    control,
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<CancelForm>({
+    resolver: zodResolver(cancelSchema),
+    defaultValues: { choice: '', details: '' },
+  });
+
+  const choice = watch('choice');
+
+  useEffect(() => {
+    if (open) reset({ choice: '', details: '' });
+  }, [open, reset]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit((values) => onConfirm(toReason(values)))} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Appointment</AlertDialogTitle>
+            <AlertDialogDescription>{description}</AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {policy && <div className="rounded-md bg-muted/50 p-3 text-sm text-muted-foreground">{policy}</div>}
+
+          {!blocked && (
+            <>
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Controller
+                  control={control}
+                  name="choice"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a reason" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CANCELLATION_REASONS[actor].map((reason) => (
+                          <SelectItem key={reason} value={reason}>
+                            {reason}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {errors.choice && <p className="text-sm text-destructive">{errors.choice.message}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cancel-details">
+                  {choice === OTHER_REASON ? 'Tell us why' : 'Details (Optional)'}
+                </Label>
+                <Textarea id="cancel-details" {...register('details')} className="min-h-[80px]" />
+                {errors.details && <p className="text-sm text-destructive">{errors.details.message}</p>}
+              </div>
+            </>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel type="button">Keep Appointment</AlertDialogCancel>
+            {!blocked && (
+              <Button type="submit" variant="destructive" disabled={isPending}>
+                {isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Cancelling...
+                  </>
+                ) : (
+                  'Cancel Appointment'
+                )}
+              </Button>
+            )}
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,371 @@
+import { useMemo, useRef, useState } from 'react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Button } from '../ui/button';
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group';
+import { fromMinutes, toDateKey } from '../../lib/availability';
+import { appointmentEnd, canReschedule, getStatusColor, type DoctorAppointment } from '../../lib/appointments';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+const HOUR_HEIGHT = 48; // px per hour on the time grid
+const DEFAULT_HOURS = { start: 8, end: 18 };
+const MONTH_CHIPS = 3; // appointments listed per month cell before "+N more"
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+interface PlacedAppointment {
+  appointment: DoctorAppointment;
+  top: number;
+  height: number;
+  lane: number;
+  lanes: number;
+}
+
+interface DragState {
+  appointment: DoctorAppointment;
+  // How far into the block the pointer grabbed it, so the drop lines up with the block's top edge
+  grabMinutes: number;
+}
+
+interface DoctorCalendarProps {
+  appointments: DoctorAppointment[];
+  // Drops snap to this grid
+  slotMinutes: number;
+  onOpen: (appointment: DoctorAppointment) => void;
+  onReschedule: (appointment: DoctorAppointment, date: Date) => void;
+}
+
+function minutesOfDay(date: Date) {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+// Positions one day's appointments on the grid; overlapping ones share the column side by side
+function layoutDay(appointments: DoctorAppointment[], startHour: number): PlacedAppointment[] {
+  const sorted = [...appointments].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const placed: PlacedAppointment[] = [];
+  let cluster: PlacedAppointment[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = 0;
+
+  const closeCluster = () => {
+    for (const item of cluster) item.lanes = laneEnds.length;
+    placed.push(...cluster);
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const appointment of sorted) {
+    const start = new Date(appointment.date);
+    const end = appointmentEnd(appointment);
+    if (cluster.length && start.getTime() >= clusterEnd) closeCluster();
+
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start.getTime());
+    if (lane === -1) lane = laneEnds.push(end.getTime()) - 1;
+    else laneEnds[lane] = end.getTime();
+    clusterEnd = cluster.length ? Math.max(clusterEnd, end.getTime()) : end.getTime();
+
+    cluster.push({
+      appointment,
+      top: ((minutesOfDay(start) - startHour * 60) / 60) * HOUR_HEIGHT,
+      height: Math.max((appointment.durationMinutes / 60) * HOUR_HEIGHT, 18),
+      lane,
+      lanes: 1,
+    });
+  }
+  closeCluster();
+  return placed;
+}
+
+export function DoctorCalendar({ appointments, slotMinutes, onOpen, onReschedule }: DoctorCalendarProps) {
+  const [view, setView] = useState<CalendarView>('week');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const dragging = useRef<DragState | null>(null);
+
+  const days = useMemo(() => {
+    if (view === 'day') return [cursor];
+    if (view === 'week') {
+      return eachDayOfInterval({ start: startOfWeek(cursor, WEEK_OPTIONS), end: endOfWeek(cursor, WEEK_OPTIONS) });
+    }
+    return eachDayOfInterval({
+      start: startOfWeek(startOfMonth(cursor), WEEK_OPTIONS),
+      end: endOfWeek(endOfMonth(cursor), WEEK_OPTIONS),
+    });
+  }, [view, cursor]);
+
+  const byDay = useMemo(() => {
+    const grouped = new Map<string, DoctorAppointment[]>();
+    for (const appointment of appointments) {
+      const key = toDateKey(new Date(appointment.date));
+      grouped.set(key, [...(grouped.get(key) ?? []), appointment]);
+    }
+    for (const list of grouped.values()) {
+      list.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    }
+    return grouped;
+  }, [appointments]);
+
+  // Stretch the grid to fit anything booked outside the usual hours
+  const hours = useMemo(() => {
+    let { start, end } = DEFAULT_HOURS;
+    for (const day of days) {
+      for (const appointment of byDay.get(toDateKey(day)) ?? []) {
+        start = Math.min(start, new Date(appointment.date).getHours());
+        end = Math.max(end, Math.ceil(minutesOfDay(appointmentEnd(appointment)) / 60) || 24);
+      }
+    }
+    return Array.from({ length: end - start }, (_, i) => start + i);
+  }, [days, byDay]);
+
+  const startHour = hours[0];
+
+  const step = (direction: 1 | -1) => {
+    setCursor((current) =>
+      view === 'day' ? addDays(current, direction) : view === 'week' ? addWeeks(current, direction) : addMonths(current, direction)
+    );
+  };
+
+  const title =
+    view === 'day'
+      ? format(cursor, 'EEEE, MMMM d, yyyy')
+      : view === 'week'
+        ? `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+        : format(cursor, 'MMMM yyyy');
+
+  const openDay = (day: Date) => {
+    setCursor(day);
+    setView('day');
+  };
+
+  const startDrag = (appointment: DoctorAppointment) => (e: React.DragEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const grabMinutes = view === 'month' ? 0 : ((e.clientY - rect.top) / HOUR_HEIGHT) * 60;
+    dragging.current = { appointment, grabMinutes };
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', appointment.id);
+  };
+
+  const dragOver = (key: string) => (e: React.DragEvent<HTMLElement>) => {
+    if (!dragging.current) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropKey !== key) setDropKey(key);
+  };
+
+  const finishDrop = (target: Date) => {
+    const drag = dragging.current;
+    dragging.current = null;
+    setDropKey(null);
+    if (drag && target.getTime() !== new Date(drag.appointment.date).getTime()) {
+      onReschedule(drag.appointment, target);
+    }
+  };
+
+  // Time grid: the drop height picks the time, snapped to the slot length
+  const dropOnGrid = (day: Date) => (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (!dragging.current) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pointer = startHour * 60 + ((e.clientY - rect.top) / HOUR_HEIGHT) * 60 - dragging.current.grabMinutes;
+    const minutes = Math.min(Math.max(Math.round(pointer / slotMinutes) * slotMinutes, 0), 24 * 60 - slotMinutes);
+    const target = new Date(day);
+    target.setHours(0, minutes, 0, 0);
+    finishDrop(target);
+  };
+
+  // Month grid: same time of day, different date
+  const dropOnDay = (day: Date) => (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (!dragging.current) return;
+    const original = new Date(dragging.current.appointment.date);
+    const target = new Date(day);
+    target.setHours(original.getHours(), original.getMinutes(), 0, 0);
+    finishDrop(target);
+  };
+
+  const blockProps = (appointment: DoctorAppointment) => {
+    const movable = canReschedule(appointment.status);
+    return {
+      type: 'button' as const,
+      draggable: movable,
+      onDragStart: movable ? startDrag(appointment) : undefined,
+      onDragEnd: () => {
+        dragging.current = null;
+        setDropKey(null);
+      },
+      onClick: () => onOpen(appointment),
+      title: `${format(new Date(appointment.date), 'h:mm a')} · ${appointment.patientName} (${appointment.status})`,
+    };
+  };
+
+  return (
+    <div className="bg-gradient-card rounded-lg shadow-card p-4 space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => step(-1)} aria-label="Previous">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => step(1)} aria-label="Next">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <h2 className="ml-2 text-lg font-semibold">{title}</h2>
+        </div>
+        <ToggleGroup
+          type="single"
+          value={view}
+          onValueChange={(value) => value && setView(value as CalendarView)}
+          variant="outline"
+          size="sm"
+        >
+          <ToggleGroupItem value="day">Day</ToggleGroupItem>
+          <ToggleGroupItem value="week">Week</ToggleGroupItem>
+          <ToggleGroupItem value="month">Month</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {view === 'month' ? (
+        <div className="grid grid-cols-7 border-l border-t text-sm">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="border-r border-b px-2 py-1 text-xs font-medium text-muted-foreground">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+          {days.map((day) => {
+            const key = toDateKey(day);
+            const items = byDay.get(key) ?? [];
+            return (
+              <div
+                key={key}
+                onDragOver={dragOver(key)}
+                onDragLeave={() => setDropKey(null)}
+                onDrop={dropOnDay(day)}
+                className={cn(
+                  'min-h-[110px] border-r border-b p-1 space-y-1',
+                  !isSameMonth(day, cursor) && 'bg-muted/30 text-muted-foreground',
+                  dropKey === key && 'bg-accent'
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => openDay(day)}
+                  className={cn(
+                    'text-xs font-medium rounded-full w-6 h-6 hover:bg-muted',
+                    isToday(day) && 'bg-primary text-primary-foreground hover:bg-primary/90'
+                  )}
+                >
+                  {format(day, 'd')}
+                </button>
+                {items.slice(0, MONTH_CHIPS).map((appointment) => (
+                  <button
+                    key={appointment.id}
+                    {...blockProps(appointment)}
+                    className={cn(
+                      'block w-full truncate rounded px-1 text-left text-xs',
+                      getStatusColor(appointment.status),
+                      appointment.status === 'cancelled' && 'opacity-60 line-through'
+                    )}
+                  >
+                    {format(new Date(appointment.date), 'HH:mm')} {appointment.patientName}
+                  </button>
+                ))}
+                {items.length > MONTH_CHIPS && (
+                  <button
+                    type="button"
+                    onClick={() => openDay(day)}
+                    className="text-xs text-muted-foreground hover:underline"
+                  >
+                    +{items.length - MONTH_CHIPS} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className={cn('flex', view === 'week' && 'min-w-[720px]')}>
+            {/* Hour gutter */}
+            <div className="w-14 shrink-0">
+              <div className="h-10" />
+              {hours.map((hour) => (
+                <div key={hour} style={{ height: HOUR_HEIGHT }} className="pr-2 text-right text-xs text-muted-foreground">
+                  {fromMinutes(hour * 60)}
+                </div>
+              ))}
+            </div>
+
+            {days.map((day) => {
+              const key = toDateKey(day);
+              return (
+                <div key={key} className="flex-1 min-w-0 border-l">
+                  <div
+                    className={cn(
+                      'h-10 border-b flex items-center justify-center text-sm font-medium',
+                      isToday(day) && 'text-primary'
+                    )}
+                  >
+                    {view === 'week' ? (
+                      <button type="button" onClick={() => openDay(day)} className="hover:underline">
+                        {format(day, 'EEE d')}
+                      </button>
+                    ) : (
+                      format(day, 'EEEE')
+                    )}
+                  </div>
+                  <div
+                    className={cn('relative', dropKey === key && 'bg-accent/40')}
+                    style={{ height: hours.length * HOUR_HEIGHT }}
+                    onDragOver={dragOver(key)}
+                    onDragLeave={() => setDropKey(null)}
+                    onDrop={dropOnGrid(day)}
+                  >
+                    {hours.map((hour) => (
+                      <div key={hour} style={{ height: HOUR_HEIGHT }} className="border-b border-dashed border-border/60" />
+                    ))}
+                    {layoutDay(byDay.get(key) ?? [], startHour).map(({ appointment, top, height, lane, lanes }) => (
+                      <button
+                        key={appointment.id}
+                        {...blockProps(appointment)}
+                        style={{ top, height, left: `${(lane / lanes) * 100}%`, width: `${100 / lanes}%` }}
+                        className={cn(
+                          'absolute overflow-hidden rounded border border-background px-1 text-left text-xs leading-tight',
+                          getStatusColor(appointment.status),
+                          canReschedule(appointment.status) ? 'cursor-grab' : 'opacity-60',
+                          appointment.status === 'cancelled' && 'line-through'
+                        )}
+                      >
+                        <span className="font-medium">{format(new Date(appointment.date), 'HH:mm')}</span>{' '}
+                        {appointment.patientName}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {appointments.length > 0 && (
+        <p className="text-xs text-muted-foreground">Drag a pending or confirmed appointment to move it.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useQuery } from '@tanstack/react-query';
+import { differenceInYears, format, parseISO } from 'date-fns';
+import { Badge } from '../ui/badge';
+import { Skeleton } from '../ui/skeleton';
+import { patientsAPI } from '../../lib/api';
+import { GENDER_LABELS, type PatientProfile } from '../../lib/profiles';
+import { AlertTriangle, HeartPulse, Phone, Pill } from 'lucide-react';
+
+// The patient's intake form as the doctor sees it: read-only, compact enough for the details dialog
+export function PatientProfileSummary({ patientId }: { patientId: string }) {
+  const { data: profile, isLoading, isError } = useQuery<PatientProfile, Error>({
+    queryKey: ['patient-profile', patientId],
+    queryFn: () => patientsAPI.getProfile(patientId),
+    staleTime: 1000 * 60,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-48" />
+        <Skeleton className="h-4 w-64" />
+      </div>
+    );
+  }
+  if (isError || !profile) {
+    return <p className="text-sm text-muted-foreground">Couldn't load the patient's medical history.</p>;
+  }
+
+  const { personal, allergies, conditions, medications, emergencyContact } = profile;
+  // parseISO keeps a bare yyyy-MM-dd on the local calendar day
+  const born = personal.dateOfBirth ? parseISO(personal.dateOfBirth) : null;
+  const details = [
+    born && `${differenceInYears(new Date(), born)} years (born ${format(born, 'MMM d, yyyy')})`,
+    personal.gender !== 'undisclosed' && GENDER_LABELS[personal.gender],
+    personal.bloodType !== 'unknown' && `Blood type ${personal.bloodType}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2 text-sm">
+      <p className="font-medium">Medical history</p>
+      {details.length > 0 && <p className="text-muted-foreground">{details.join(' · ')}</p>}
+
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive" />
+        {allergies.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {allergies.map((allergy) => (
+              <Badge key={allergy} variant="destructive" className="font-normal">
+                {allergy}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <span className="text-muted-foreground">No known allergies</span>
+        )}
+      </div>
+
+      {conditions.length > 0 && (
+        <div className="flex items-start gap-2">
+          <HeartPulse className="w-4 h-4 mt-0.5 text-muted-foreground" />
+          <p>
+            <span className="text-muted-foreground">Conditions:</span> {conditions.join(', ')}
+          </p>
+        </div>
+      )}
+
+      {medications.length > 0 && (
+        <div className="flex items-start gap-2">
+          <Pill className="w-4 h-4 mt-0.5 text-muted-foreground" />
+          <p>
+            <span className="text-muted-foreground">Takes:</span>{' '}
+            {medications.map((m) => (m.dosage ? `${m.name} ${m.dosage}` : m.name)).join(', ')}
+          </p>
+        </div>
+      )}
+
+      {emergencyContact.name && (
+        <div className="flex items-start gap-2">
+          <Phone className="w-4 h-4 mt-0.5 text-muted-foreground" />
+          <p>
+            <span className="text-muted-foreground">Emergency contact:</span> {emergencyContact.name}
+            {emergencyContact.relationship && ` (${emergencyContact.relationship})`} · {emergencyContact.phone}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
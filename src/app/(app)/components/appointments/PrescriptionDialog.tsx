@@ -0,0 +1,196 @@
+import { useEffect } from 'react';
+import { useFieldArray, useForm, type Path } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { useToast } from '../../hooks/use-toast';
+import { recordsAPI } from '../../lib/api';
+import type { DoctorAppointment } from '../../lib/appointments';
+import { applyFieldErrors } from '../../lib/forms';
+import { EMPTY_MEDICATION, prescriptionSchema, type PrescriptionInput } from '../../lib/prescriptions';
+import { Loader2, Pill, Plus, Trash2 } from 'lucide-react';
+
+interface PrescriptionDialogProps {
+  appointment: DoctorAppointment | null;
+  onClose: () => void;
+}
+
+const MEDICATION_FIELDS = ['name', 'dosage', 'frequency', 'duration', 'instructions'] as const;
+
+// Writes or edits the prescription on a completed appointment
+export function PrescriptionDialog({ appointment, onClose }: PrescriptionDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<PrescriptionInput>({
+    resolver: zodResolver(prescriptionSchema),
+    defaultValues: { medications: [EMPTY_MEDICATION], instructions: '' },
+  });
+  const { fields, append, remove } = useFieldArray({ control, name: 'medications' });
+
+  useEffect(() => {
+    if (!appointment) return;
+    const { medications, instructions } = appointment.prescription ?? { medications: [EMPTY_MEDICATION], instructions: '' };
+    reset({ medications, instructions });
+  }, [appointment, reset]);
+
+  const saveMutation = useMutation<DoctorAppointment, Error, PrescriptionInput>({
+    mutationFn: (prescription) => recordsAPI.savePrescription(appointment!.id, prescription),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+        current?.map((a) => (a.id === saved.id ? { ...a, prescription: saved.prescription } : a))
+      );
+      queryClient.invalidateQueries({ queryKey: ['patient-history', saved.patientId] });
+      toast({ title: 'Prescription saved', description: 'The patient can now view and download it.' });
+      onClose();
+    },
+    onError: (error) => {
+      // Server paths look like "medications.0.dosage", which is also how the form names them
+      const paths: Path<PrescriptionInput>[] = [
+        'medications',
+        'instructions',
+        ...fields.flatMap((_, i) => MEDICATION_FIELDS.map((field) => `medications.${i}.${field}` as const)),
+      ];
+      if (applyFieldErrors(error, setError, paths)) return;
+      toast({
+        title: 'Save failed',
+        description: error.message || 'Unable to save prescription',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(appointment)} onOpenChange={(open) => !open && onClose()}>
+      {appointment && (
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-3">
+              <Pill className="w-5 h-5 text-primary" />
+              Prescription
+            </DialogTitle>
+            <DialogDescription>
+              {appointment.patientName} · {format(new Date(appointment.date), 'EEEE, MMMM d, yyyy · h:mm a')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            {fields.map((field, i) => {
+              const fieldErrors = errors.medications?.[i];
+              return (
+                <div key={field.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium text-sm">Medication {i + 1}</p>
+                    {fields.length > 1 && (
+                      <Button type="button" variant="ghost" size="sm" onClick={() => remove(i)}>
+                        <Trash2 className="w-4 h-4" />
+                        <span className="sr-only">Remove medication</span>
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-2 sm:col-span-2">
+                      <Label htmlFor={`medications.${i}.name`}>Name</Label>
+                      <Input id={`medications.${i}.name`} {...register(`medications.${i}.name`)} placeholder="e.g. Amoxicillin" />
+                      {fieldErrors?.name && <p className="text-sm text-destructive">{fieldErrors.name.message}</p>}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`medications.${i}.dosage`}>Dosage</Label>
+                      <Input id={`medications.${i}.dosage`} {...register(`medications.${i}.dosage`)} placeholder="e.g. 500 mg" />
+                      {fieldErrors?.dosage && <p className="text-sm text-destructive">{fieldErrors.dosage.message}</p>}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`medications.${i}.frequency`}>Frequency</Label>
+                      <Input
+                        id={`medications.${i}.frequency`}
+                        {...register(`medications.${i}.frequency`)}
+                        placeholder="e.g. Three times a day"
+                      />
+                      {fieldErrors?.frequency && <p className="text-sm text-destructive">{fieldErrors.frequency.message}</p>}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`medications.${i}.duration`}>Duration</Label>
+                      <Input id={`medications.${i}.duration`} {...register(`medications.${i}.duration`)} placeholder="e.g. 7 days" />
+                      {fieldErrors?.duration && <p className="text-sm text-destructive">{fieldErrors.duration.message}</p>}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`medications.${i}.instructions`}>Notes</Label>
+                      <Input
+                        id={`medications.${i}.instructions`}
+                        {...register(`medications.${i}.instructions`)}
+                        placeholder="e.g. Take with food"
+                      />
+                      {fieldErrors?.instructions && (
+                        <p className="text-sm text-destructive">{fieldErrors.instructions.message}</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {errors.medications?.root && <p className="text-sm text-destructive">{errors.medications.root.message}</p>}
+            {errors.medications?.message && <p className="text-sm text-destructive">{errors.medications.message}</p>}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append(EMPTY_MEDICATION)}
+              disabled={fields.length >= 20}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add medication
+            </Button>
+
+            <div className="space-y-2">
+              <Label htmlFor="prescriptionInstructions">Instructions</Label>
+              <Textarea
+                id="prescriptionInstructions"
+                {...register('instructions')}
+                placeholder="General advice for the patient..."
+                className="min-h-[80px]"
+              />
+              {errors.instructions && <p className="text-sm text-destructive">{errors.instructions.message}</p>}
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" variant="medical" disabled={saveMutation.isPending} className="flex-1">
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save prescription'
+                )}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
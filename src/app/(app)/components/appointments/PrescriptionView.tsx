@@ -0,0 +1,84 @@
+import { format } from 'date-fns';
+import { Button } from '../ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { useToast } from '../../hooks/use-toast';
+import { createPdf, downloadBlob, printLines } from '../../lib/pdf';
+import { prescriptionLines } from '../../lib/prescriptions';
+import { Download, Printer } from 'lucide-react';
+
+type PrescriptionViewProps = Parameters<typeof prescriptionLines>[0];
+
+// Read-only prescription with print and PDF download
+export function PrescriptionView(props: PrescriptionViewProps) {
+  const { prescription, doctorName, date } = props;
+  const { toast } = useToast();
+  const title = `Prescription - ${doctorName} - ${format(new Date(date), 'yyyy-MM-dd')}`;
+
+  const handlePrint = () => {
+    if (!printLines(prescriptionLines(props), title)) {
+      toast({
+        title: 'Print blocked',
+        description: 'Allow pop-ups for this site to print, or download the PDF instead.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDownload = () => {
+    downloadBlob(createPdf(prescriptionLines(props), title), `prescription-${format(new Date(date), 'yyyy-MM-dd')}.pdf`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Medication</TableHead>
+            <TableHead>Dosage</TableHead>
+            <TableHead>Frequency</TableHead>
+            <TableHead>Duration</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {prescription.medications.map((medication, i) => (
+            <TableRow key={i}>
+              <TableCell>
+                <p className="font-medium">{medication.name}</p>
+                {medication.instructions && (
+                  <p className="text-xs text-muted-foreground">{medication.instructions}</p>
+                )}
+              </TableCell>
+              <TableCell>{medication.dosage}</TableCell>
+              <TableCell>{medication.frequency}</TableCell>
+              <TableCell>{medication.duration}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {prescription.instructions && (
+        <div className="bg-muted/50 p-3 rounded-lg text-sm">
+          <p className="font-medium mb-1">Instructions</p>
+          <p className="text-muted-foreground whitespace-pre-wrap">{prescription.instructions}</p>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Issued {format(new Date(prescription.issuedAt), 'MMMM d, yyyy')}
+        {prescription.updatedAt !== prescription.issuedAt &&
+          ` · updated ${format(new Date(prescription.updatedAt), 'MMMM d, yyyy')}`}
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handlePrint}>
+          <Printer className="w-4 h-4 mr-1" />
+          Print
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-1" />
+          Download PDF
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { Skeleton } from '../ui/skeleton';
+import { useToast } from '../../hooks/use-toast';
+import { remindersAPI } from '../../lib/api';
+import type { ReminderChannel, ReminderPreferences } from '../../lib/reminders';
+import { useAuthStore } from '../../store/authStor';
+import { BellRing, Mail, MessageSquare } from 'lucide-react';
+
+// Which channels the patient gets booking confirmations and 24-hour / 1-hour reminders on.
+// Each switch saves straight away.
+export function ReminderSettings() {
+  const { user } = useAuthStore();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const phone = user?.phone?.trim();
+
+  const { data: preferences, isLoading } = useQuery<ReminderPreferences, Error>({
+    queryKey: ['reminder-preferences'],
+    queryFn: () => remindersAPI.getMine(),
+  });
+
+  const saveMutation = useMutation<ReminderPreferences, Error, ReminderPreferences, { previous?: ReminderPreferences }>({
+    mutationFn: (next) => remindersAPI.updateMine(next),
+    onMutate: async (next) => {
+      await queryClient.cancelQueries({ queryKey: ['reminder-preferences'] });
+      const previous = queryClient.getQueryData<ReminderPreferences>(['reminder-preferences']);
+      queryClient.setQueryData(['reminder-preferences'], next);
+      return { previous };
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['reminder-preferences'], saved);
+      toast({ title: 'Reminder settings saved' });
+    },
+    onError: (error, _next, context) => {
+      if (context?.previous) queryClient.setQueryData(['reminder-preferences'], context.previous);
+      toast({
+        title: 'Save failed',
+        description: error.message || 'Unable to save reminder settings',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggle = (channel: ReminderChannel, enabled: boolean) => {
+    if (preferences) saveMutation.mutate({ ...preferences, [channel]: enabled });
+  };
+
+  return (
+    <Card className="shadow-card bg-gradient-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BellRing className="w-5 h-5 text-primary" />
+          Appointment reminders
+        </CardTitle>
+        <CardDescription>A confirmation when you book, then reminders 24 hours and 1 hour before.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !preferences ? (
+          <div className="space-y-3">
+            <Skeleton className="h-5 w-64" />
+            <Skeleton className="h-5 w-64" />
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="flex items-start gap-3">
+              <Switch
+                id="reminder-email"
+                checked={preferences.email}
+                onCheckedChange={(checked) => toggle('email', checked)}
+                className="mt-0.5"
+              />
+              <Label htmlFor="reminder-email" className="space-y-1 cursor-pointer">
+                <span className="flex items-center gap-2 font-medium">
+                  <Mail className="w-4 h-4 text-muted-foreground" />
+                  Email
+                </span>
+                <span className="block text-sm font-normal text-muted-foreground">{user?.email}</span>
+              </Label>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <Switch
+                id="reminder-sms"
+                checked={preferences.sms && Boolean(phone)}
+                onCheckedChange={(checked) => toggle('sms', checked)}
+                disabled={!phone}
+                className="mt-0.5"
+              />
+              <Label htmlFor="reminder-sms" className="space-y-1 cursor-pointer">
+                <span className="flex items-center gap-2 font-medium">
+                  <MessageSquare className="w-4 h-4 text-muted-foreground" />
+                  SMS
+                </span>
+                <span className="block text-sm font-normal text-muted-foreground">
+                  {phone ?? 'Add a phone number to your profile to get text reminders'}
+                </span>
+              </Label>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { useDoctorAvailability } from '../../hooks/use-doctor-availability';
+import { useToast } from '../../hooks/use-toast';
+import { appointmentsAPI } from '../../lib/api';
+import { fromDateKey, slotAt, slotToDate, toDateKey } from '../../lib/availability';
+import type { PatientAppointment } from '../../lib/appointments';
+import { BookingConflictError } from '../../lib/errors';
+import { applyFieldErrors } from '../../lib/forms';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { SlotPicker } from './SlotPicker';
+import type { RescheduleModalProps } from '../../../../types/types';
+
+const rescheduleSchema = z.object({
+  date: z.date({
+    required_error: 'Please select a new date',
+  }),
+  time: z.string().min(1, 'Please select a new time'),
+});
+
+type RescheduleForm = z.infer<typeof rescheduleSchema>;
+
+export function RescheduleAppointmentModal({ appointment, isOpen, onClose, onRescheduled }: RescheduleModalProps) {
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [conflict, setConflict] = useState<BookingConflictError | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: availability } = useDoctorAvailability(appointment?.doctorId, isOpen);
+
+  const {
+    handleSubmit,
+    setValue,
+    setError,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<RescheduleForm>({
+    resolver: zodResolver(rescheduleSchema),
+    defaultValues: {
+      date: undefined,
+      time: '',
+    },
+  });
+
+  const watchedTime = watch('time');
+
+  // Start on the day the appointment is on now (on the doctor's calendar), if it hasn't passed
+  useEffect(() => {
+    if (!isOpen || !appointment || !availability) return;
+    const { day } = slotAt(availability, new Date(appointment.date));
+    if (day >= toDateKey(new Date(), availability.timeZone)) {
+      const current = fromDateKey(day);
+      setSelectedDate(current);
+      setValue('date', current);
+    }
+  }, [isOpen, appointment, availability, setValue]);
+
+  const rescheduleMutation = useMutation<PatientAppointment, Error, { appointment: PatientAppointment; date: string }>({
+    mutationFn: ({ appointment, date }) => appointmentsAPI.reschedule(appointment, date),
+    onSuccess: (updated, { appointment }) => {
+      toast({
+        title: 'Appointment Rescheduled',
+        description:
+          updated.status === 'pending' && appointment.status === 'confirmed'
+            ? `Moved to ${format(new Date(updated.date), 'PPP p')}. ${appointment.doctorName} will confirm the new time.`
+            : `Moved to ${format(new Date(updated.date), 'PPP p')}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['doctor-busy', appointment.doctorId] });
+      handleClose();
+      onRescheduled?.(updated.id);
+    },
+    onError: (error, { appointment }) => {
+      if (error instanceof BookingConflictError) {
+        setConflict(error);
+        setValue('time', '');
+        queryClient.invalidateQueries({ queryKey: ['doctor-busy', appointment.doctorId] });
+        return;
+      }
+      // The payload's `date` carries the chosen time slot
+      if (applyFieldErrors(error, setError, ['time'], { date: 'time' })) return;
+      toast({
+        title: 'Reschedule Failed',
+        description: error.message || 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data: RescheduleForm) => {
+    if (!appointment || !availability) return;
+    rescheduleMutation.mutate({
+      appointment,
+      date: slotToDate(availability, toDateKey(data.date), data.time).toISOString(),
+    });
+  };
+
+  const handleClose = () => {
+    reset();
+    setSelectedDate(undefined);
+    setConflict(null);
+    onClose();
+  };
+
+  const handleDateSelect = (date: Date) => {
+    setSelectedDate(date);
+    setValue('date', date, { shouldValidate: true });
+    setValue('time', '');
+  };
+
+  const handleTimeSelect = (time: string) => {
+    setConflict(null);
+    setValue('time', time, { shouldValidate: true });
+  };
+
+  if (!appointment) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            Reschedule Appointment
+          </DialogTitle>
+          <DialogDescription>
+            Currently {format(new Date(appointment.date), 'EEEE, MMMM d, yyyy · h:mm a')} with {appointment.doctorName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <SlotPicker
+            doctorId={appointment.doctorId}
+            enabled={isOpen}
+            selectedDate={selectedDate}
+            selectedTime={watchedTime}
+            onDateSelect={handleDateSelect}
+            onTimeSelect={handleTimeSelect}
+            conflict={conflict}
+            reschedule={{ appointmentId: appointment.id, currentDate: appointment.date }}
+            dateError={errors.date?.message}
+            timeError={errors.time?.message}
+          />
+
+          {appointment.status === 'confirmed' && (
+            <p className="text-sm text-muted-foreground">
+              Depending on {appointment.doctorName}'s settings, the new time may need to be confirmed again.
+            </p>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              className="flex-1"
+            >
+              Keep Current Time
+            </Button>
+            <Button
+              type="submit"
+              variant="medical"
+              disabled={rescheduleMutation.isPending || !selectedDate || !watchedTime}
+              className="flex-1"
+            >
+              {rescheduleMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Rescheduling...
+                </>
+              ) : (
+                'Reschedule'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
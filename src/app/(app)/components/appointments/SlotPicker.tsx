@@ -0,0 +1,222 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Calendar } from '../ui/calendar';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '../ui/popover';
+import { useDoctorAvailability } from '../../hooks/use-doctor-availability';
+import { appointmentsAPI } from '../../lib/api';
+import { addDaysToKey, fromDateKey, generateSlots, slotAt, slotToDate, toDateKey } from '../../lib/availability';
+import { intervalsOverlap, type BusyInterval } from '../../lib/appointments';
+import type { BookingConflictError } from '../../lib/errors';
+import { localTimeZone, toZonedTime } from '../../lib/timezones';
+import { AlertTriangle, CalendarIcon, Loader2 } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+interface SlotPickerProps {
+  doctorId: string;
+  enabled: boolean;
+  selectedDate?: Date;
+  selectedTime: string;
+  onDateSelect: (date: Date) => void;
+  onTimeSelect: (time: string) => void;
+  conflict?: BookingConflictError | null;
+  // When moving an existing appointment: leave it out of the busy check and mark its current slot
+  reschedule?: { appointmentId: string; currentDate: string };
+  dateError?: string;
+  timeError?: string;
+}
+
+// Date and time picker over a doctor's offered slots, with taken slots crossed out. The picked date is
+// a day on the doctor's calendar and times are on the doctor's clock.
+export function SlotPicker({
+  doctorId,
+  enabled,
+  selectedDate,
+  selectedTime,
+  onDateSelect,
+  onTimeSelect,
+  conflict,
+  reschedule,
+  dateError,
+  timeError,
+}: SlotPickerProps) {
+  const { data: availability, isLoading: availabilityLoading } = useDoctorAvailability(doctorId, enabled);
+
+  const day = selectedDate ? toDateKey(selectedDate) : null;
+
+  const timeSlots = useMemo(
+    () => (availability && day ? generateSlots(availability, day) : []),
+    [availability, day]
+  );
+
+  const { data: busy = [] } = useQuery<BusyInterval[], Error>({
+    queryKey: ['doctor-busy', doctorId, day, reschedule?.appointmentId],
+    queryFn: () =>
+      appointmentsAPI.getBusySlots(
+        doctorId,
+        slotToDate(availability!, day!, '00:00'),
+        slotToDate(availability!, addDaysToKey(day!, 1), '00:00'),
+        reschedule?.appointmentId
+      ),
+    enabled: Boolean(enabled && availability && day),
+  });
+
+  // Slot -> whose calendar already holds it
+  const takenSlots = useMemo(() => {
+    const taken = new Map<string, BusyInterval['owner']>();
+    if (!availability || !day) return taken;
+    for (const slot of timeSlots) {
+      const start = slotToDate(availability, day, slot);
+      const end = new Date(start.getTime() + availability.slotMinutes * 60_000);
+      const hit = busy.find((b) => intervalsOverlap(start, end, new Date(b.start), new Date(b.end)));
+      if (hit) taken.set(slot, hit.owner);
+    }
+    return taken;
+  }, [availability, busy, day, timeSlots]);
+
+  const currentSlot = useMemo(() => {
+    if (!reschedule || !availability || !day) return null;
+    const current = slotAt(availability, new Date(reschedule.currentDate));
+    return current.day === day && timeSlots.includes(current.slot) ? current.slot : null;
+  }, [reschedule, availability, day, timeSlots]);
+
+  const handleAlternativeSelect = (iso: string) => {
+    if (!availability) return;
+    const alternative = slotAt(availability, new Date(iso));
+    onDateSelect(fromDateKey(alternative.day));
+    onTimeSelect(alternative.slot);
+  };
+
+  const otherTimeZone = availability && availability.timeZone !== localTimeZone() ? availability.timeZone : null;
+
+  return (
+    <>
+      {/* Date Selection */}
+      <div className="space-y-2">
+        <Label>Select Date</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              className={cn(
+                'w-full justify-start text-left font-normal',
+                !selectedDate && 'text-muted-foreground'
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {selectedDate ? format(selectedDate, 'PPP') : 'Pick a date'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={(date) => date && onDateSelect(date)}
+              disabled={(date) =>
+                date < new Date() ||
+                !availability ||
+                generateSlots(availability, toDateKey(date)).length === 0
+              }
+              initialFocus
+              className={cn('p-3 pointer-events-auto')}
+            />
+          </PopoverContent>
+        </Popover>
+        {dateError && (
+          <p className="text-sm text-destructive">{dateError}</p>
+        )}
+      </div>
+
+      {/* Time Selection */}
+      <div className="space-y-2">
+        <Label>Select Time</Label>
+        {availabilityLoading ? (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading availability...
+          </p>
+        ) : !selectedDate ? (
+          <p className="text-sm text-muted-foreground">Pick a date to see available times.</p>
+        ) : timeSlots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No available times on this date.</p>
+        ) : (
+          <div className="grid grid-cols-4 gap-2">
+            {timeSlots.map((time) => {
+              const takenBy = takenSlots.get(time);
+              const isCurrent = time === currentSlot;
+              return (
+                <Button
+                  key={time}
+                  type="button"
+                  variant={selectedTime === time ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onTimeSelect(time)}
+                  disabled={Boolean(takenBy) || isCurrent}
+                  title={
+                    isCurrent
+                      ? 'Current appointment time'
+                      : takenBy === 'doctor'
+                        ? 'Already booked'
+                        : takenBy === 'patient'
+                          ? 'You have another appointment at this time'
+                          : undefined
+                  }
+                  className={cn(takenBy && 'line-through', isCurrent && 'border-primary')}
+                >
+                  {time}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+        {takenSlots.size > 0 && (
+          <p className="text-xs text-muted-foreground">Crossed-out times are already taken.</p>
+        )}
+        {currentSlot && (
+          <p className="text-xs text-muted-foreground">{currentSlot} is your current time.</p>
+        )}
+        {otherTimeZone && timeSlots.length > 0 && (
+          <p className="text-xs text-muted-foreground">Times are in the doctor's time zone ({otherTimeZone}).</p>
+        )}
+        {timeError && (
+          <p className="text-sm text-destructive">{timeError}</p>
+        )}
+      </div>
+
+      {conflict && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>That time is no longer available</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>{conflict.message}</p>
+            {conflict.alternatives.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {conflict.alternatives.map((iso) => (
+                  <Button
+                    key={iso}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAlternativeSelect(iso)}
+                  >
+                    {format(toZonedTime(new Date(iso), availability?.timeZone ?? localTimeZone()), 'EEE, MMM d · HH:mm')}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <p>No nearby times are free. Please pick another date.</p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { useToast } from '../../hooks/use-toast';
+import { recordsAPI } from '../../lib/api';
+import type { DoctorAppointment } from '../../lib/appointments';
+import { applyFieldErrors } from '../../lib/forms';
+import { EMPTY_VISIT_RECORD, visitRecordSchema, type VisitRecordInput } from '../../lib/records';
+import { ClipboardList, Loader2 } from 'lucide-react';
+
+interface VisitRecordDialogProps {
+  appointment: DoctorAppointment | null;
+  onClose: () => void;
+  // Label for the save button, e.g. "Complete visit" when saving also closes the appointment
+  submitLabel?: string;
+  onSaved?: (appointment: DoctorAppointment) => void;
+}
+
+// Intake notes from the patient alongside the doctor's visit notes, diagnosis and follow-up
+export function VisitRecordDialog({ appointment, onClose, submitLabel = 'Save notes', onSaved }: VisitRecordDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<VisitRecordInput>({
+    resolver: zodResolver(visitRecordSchema),
+    defaultValues: EMPTY_VISIT_RECORD,
+  });
+
+  useEffect(() => {
+    if (!appointment) return;
+    const { visitNotes, diagnosis, followUp } = appointment.record ?? EMPTY_VISIT_RECORD;
+    reset({ visitNotes, diagnosis, followUp });
+  }, [appointment, reset]);
+
+  const saveMutation = useMutation<DoctorAppointment, Error, VisitRecordInput>({
+    mutationFn: (record) => recordsAPI.saveVisitRecord(appointment!.id, record),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+        current?.map((a) => (a.id === saved.id ? { ...a, record: saved.record } : a))
+      );
+      queryClient.invalidateQueries({ queryKey: ['patient-history', saved.patientId] });
+      toast({ title: 'Visit notes saved' });
+      onSaved?.(saved);
+      onClose();
+    },
+    onError: (error) => {
+      if (applyFieldErrors(error, setError, ['visitNotes', 'diagnosis', 'followUp'])) return;
+      toast({
+        title: 'Save failed',
+        description: error.message || 'Unable to save visit notes',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(appointment)} onOpenChange={(open) => !open && onClose()}>
+      {appointment && (
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-3">
+              <ClipboardList className="w-5 h-5 text-primary" />
+              Visit notes
+            </DialogTitle>
+            <DialogDescription>
+              {appointment.patientName} · {format(new Date(appointment.date), 'EEEE, MMMM d, yyyy · h:mm a')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            <div className="bg-muted/50 p-3 rounded-lg text-sm">
+              <p className="font-medium mb-1">Intake notes from the patient</p>
+              <p className="text-muted-foreground whitespace-pre-wrap">{appointment.notes || 'None provided.'}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="visitNotes">Visit notes</Label>
+              <Textarea
+                id="visitNotes"
+                {...register('visitNotes')}
+                placeholder="Examination, findings, discussion..."
+                className="min-h-[120px]"
+              />
+              {errors.visitNotes && <p className="text-sm text-destructive">{errors.visitNotes.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="diagnosis">Diagnosis</Label>
+              <Input id="diagnosis" {...register('diagnosis')} />
+              {errors.diagnosis && <p className="text-sm text-destructive">{errors.diagnosis.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="followUp">Follow-up instructions</Label>
+              <Textarea
+                id="followUp"
+                {...register('followUp')}
+                placeholder="Medication, lifestyle advice, when to come back..."
+                className="min-h-[80px]"
+              />
+              {errors.followUp && <p className="text-sm text-destructive">{errors.followUp.message}</p>}
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" variant="medical" disabled={saveMutation.isPending} className="flex-1">
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  submitLabel
+                )}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../ui/input-otp';
+import { CODE_LENGTH } from '../../lib/account';
+
+interface CodeInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+}
+
+// One box per digit of an emailed verification code
+export function CodeInput({ id, value, onChange, onComplete, disabled, invalid }: CodeInputProps) {
+  return (
+    <InputOTP
+      id={id}
+      maxLength={CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoComplete="one-time-code"
+      aria-invalid={invalid}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: CODE_LENGTH }, (_, index) => (
+          <InputOTPSlot key={index} index={index} className={invalid ? 'border-destructive' : undefined} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
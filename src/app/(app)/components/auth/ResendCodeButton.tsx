@@ -0,0 +1,28 @@
+import { Button } from '../ui/button';
+import { useCountdown } from '../../hooks/use-countdown';
+import { Loader2 } from 'lucide-react';
+
+interface ResendCodeButtonProps {
+  resendAt: string | null | undefined; // ISO string; disabled with a countdown until then
+  isPending?: boolean;
+  onResend: () => void;
+}
+
+export function ResendCodeButton({ resendAt, isPending = false, onResend }: ResendCodeButtonProps) {
+  const seconds = useCountdown(resendAt);
+
+  return (
+    <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={onResend} disabled={isPending || seconds > 0}>
+      {isPending ? (
+        <>
+          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          Sending...
+        </>
+      ) : seconds > 0 ? (
+        `Resend code in ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+      ) : (
+        'Resend code'
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,19 @@
+import { Suspense } from 'react';
+import { Outlet } from 'react-router-dom';
+import { useLiveUpdates } from '../../hooks/use-live-updates';
+import { Navbar } from './Navbar';
+import { PageLoader } from './PageLoader';
+
+// Shared chrome for every page that sits under the navbar
+export function AppShell() {
+  useLiveUpdates();
+
+  return (
+    <>
+      <Navbar />
+      <Suspense fallback={<PageLoader />}>
+        <Outlet />
+      </Suspense>
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { Link, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '../ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
 import {
@@ -10,14 +11,18 @@ import {
   DropdownMenuTrigger,
 } from '../../components/ui/dropdown-menu';
 import { useAuthStore } from '../../../../app/(app)/store/authStor';
-import { Heart, LogOut, Settings, User } from 'lucide-react';
+import { NotificationBell } from './NotificationBell';
+import { BadgeCheck, Heart, LogOut, Settings, User } from 'lucide-react';
 
 export function Navbar() {
   const { user, logout } = useAuthStore();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
+  // Cached queries aren't keyed by user, so the next account to sign in here mustn't see them
   const handleLogout = () => {
     logout();
+    queryClient.clear();
     navigate('/login');
   };
 
@@ -57,11 +62,19 @@ export function Navbar() {
               >
                 My Appointments
               </Link>
+            ) : user?.role === 'admin' ? (
+              <Link
+                to="/admin/dashboard"
+                className="text-foreground hover:text-primary transition-colors"
+              >
+                Verifications
+              </Link>
             ) : null}
           </div>
 
           {/* User Menu */}
           <div className="flex items-center space-x-4">
+            {user && <NotificationBell user={user} />}
             {user ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -84,15 +97,25 @@ export function Navbar() {
                     </div>
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem>
-                    <User className="mr-2 h-4 w-4" />
-                    <span>Profile</span>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem>
-                    <Settings className="mr-2 h-4 w-4" />
-                    <span>Settings</span>
-                  </DropdownMenuItem>
-                  <DropdownMenuSeparator />
+                  {user.role !== 'admin' && (
+                    <>
+                      <DropdownMenuItem onClick={() => navigate(`/${user.role}/profile`)}>
+                        <User className="mr-2 h-4 w-4" />
+                        <span>Profile</span>
+                      </DropdownMenuItem>
+                      {user.role === 'doctor' && (
+                        <DropdownMenuItem onClick={() => navigate('/doctor/verification')}>
+                          <BadgeCheck className="mr-2 h-4 w-4" />
+                          <span>License verification</span>
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem onClick={() => navigate(`/${user.role}/settings`)}>
+                        <Settings className="mr-2 h-4 w-4" />
+                        <span>Settings</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
                   <DropdownMenuItem onClick={handleLogout}>
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>Log out</span>
@@ -0,0 +1,147 @@
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '../ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import { notificationsAPI } from '../../lib/api';
+import {
+  isLicenseNotification,
+  markFeedAllRead,
+  markFeedRead,
+  type AppNotification,
+  type NotificationFeed,
+} from '../../lib/notifications';
+import { cn } from '../../lib/utils';
+import type { User } from '../../store/authStor';
+import { Bell } from 'lucide-react';
+
+// Bell with the unread count; opening an item marks it read and goes to the appointment, or to the
+// verification page for license decisions
+export function NotificationBell({ user }: { user: Pick<User, 'id' | 'role'> }) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const feedKey = ['notifications', user.id];
+
+  // Pushed notifications land in this cache (see useLiveUpdates), so it rarely needs refetching
+  const { data: feed } = useQuery<NotificationFeed, Error>({
+    queryKey: feedKey,
+    queryFn: () => notificationsAPI.list(),
+    staleTime: 1000 * 60 * 5,
+  });
+  const unread = feed?.unread ?? 0;
+
+  // Both mark-read mutations are optimistic and restore the feed if the server refuses
+  const markReadMutation = useMutation<AppNotification, Error, string, { previous?: NotificationFeed }>({
+    mutationFn: (id) => notificationsAPI.markRead(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: feedKey });
+      const previous = queryClient.getQueryData<NotificationFeed>(feedKey);
+      queryClient.setQueryData<NotificationFeed>(
+        feedKey,
+        (current) => current && markFeedRead(current, id, new Date().toISOString())
+      );
+      return { previous };
+    },
+    onError: (_err, _id, context) => {
+      if (context?.previous) queryClient.setQueryData(feedKey, context.previous);
+    },
+  });
+
+  const markAllMutation = useMutation<null, Error, void, { previous?: NotificationFeed }>({
+    mutationFn: () => notificationsAPI.markAllRead(),
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey: feedKey });
+      const previous = queryClient.getQueryData<NotificationFeed>(feedKey);
+      queryClient.setQueryData<NotificationFeed>(
+        feedKey,
+        (current) => current && markFeedAllRead(current, new Date().toISOString())
+      );
+      return { previous };
+    },
+    onError: (_err, _vars, context) => {
+      if (context?.previous) queryClient.setQueryData(feedKey, context.previous);
+    },
+  });
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.readAt) markReadMutation.mutate(notification.id);
+    if (isLicenseNotification(notification)) {
+      navigate('/doctor/verification');
+    } else if (user.role === 'patient') {
+      navigate('/patient/appointments', { state: { highlightId: notification.appointmentId } });
+    } else {
+      const id = notification.appointmentId;
+      navigate(id ? `/doctor/dashboard?appointment=${encodeURIComponent(id)}` : '/doctor/dashboard');
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unread > 0 ? `Notifications, ${unread} unread` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-[1.1rem] text-center">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between pr-1">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markAllMutation.mutate()}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {!feed || feed.items.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {feed.items.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className="flex items-start gap-2 py-2 cursor-pointer"
+              >
+                <span
+                  className={cn('mt-1.5 h-2 w-2 shrink-0 rounded-full', notification.readAt ? 'bg-transparent' : 'bg-primary')}
+                  aria-hidden
+                />
+                <div className="space-y-0.5">
+                  <p className={cn('text-sm leading-tight', !notification.readAt && 'font-medium')}>
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{notification.body}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,9 @@
+import { Loader2 } from 'lucide-react';
+
+export function PageLoader() {
+  return (
+    <div className="flex min-h-[50vh] items-center justify-center">
+      <Loader2 className="h-8 w-8 animate-spin text-primary" aria-label="Loading page" />
+    </div>
+  );
+}
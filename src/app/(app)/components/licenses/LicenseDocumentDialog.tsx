@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Skeleton } from '../ui/skeleton';
+import { formatFileSize, toObjectUrl } from '../../lib/files';
+import type { LicenseDocument, LicenseFile } from '../../lib/licenses';
+import { ExternalLink } from 'lucide-react';
+
+interface LicenseDocumentDialogProps {
+  document: LicenseDocument | null;
+  onOpenChange: (open: boolean) => void;
+  // Documents are only listed by name; the file itself is fetched when one is opened
+  load: (document: LicenseDocument) => Promise<LicenseFile>;
+}
+
+export function LicenseDocumentDialog({ document, onOpenChange, load }: LicenseDocumentDialogProps) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  const { data: file, isLoading, error } = useQuery<LicenseFile, Error>({
+    queryKey: ['license-document', document?.id],
+    queryFn: () => load(document!),
+    enabled: Boolean(document),
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!file || file.id !== document?.id) return;
+    let url: string | null = null;
+    let cancelled = false;
+    toObjectUrl(file.dataUrl).then((created) => {
+      url = created;
+      if (cancelled) URL.revokeObjectURL(created);
+      else setObjectUrl(created);
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setObjectUrl(null);
+    };
+  }, [file, document?.id]);
+
+  return (
+    <Dialog open={Boolean(document)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{document?.name}</DialogTitle>
+          <DialogDescription>{document && formatFileSize(document.size)}</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : isLoading || !objectUrl ? (
+          <Skeleton className="h-[60vh] w-full" />
+        ) : document?.type === 'application/pdf' ? (
+          <iframe src={objectUrl} title={document.name} className="h-[60vh] w-full rounded-md border" />
+        ) : (
+          <img src={objectUrl} alt={document?.name} className="max-h-[60vh] w-full rounded-md border object-contain" />
+        )}
+
+        {objectUrl && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" asChild>
+              <a href={objectUrl} target="_blank" rel="noreferrer">
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Open in new tab
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { format } from 'date-fns';
+import { Button } from '../ui/button';
+import { formatFileSize } from '../../lib/files';
+import type { LicenseDocument } from '../../lib/licenses';
+import { Eye, FileImage, FileText, Loader2, Trash2 } from 'lucide-react';
+
+interface LicenseDocumentListProps {
+  documents: LicenseDocument[];
+  onView: (document: LicenseDocument) => void;
+  // Leave out to list the documents read-only
+  onRemove?: (document: LicenseDocument) => void;
+  removingId?: string | null;
+}
+
+export function LicenseDocumentList({ documents, onView, onRemove, removingId }: LicenseDocumentListProps) {
+  if (documents.length === 0) {
+    return <p className="text-sm text-muted-foreground">No documents uploaded yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-border rounded-md border">
+      {documents.map((document) => {
+        const Icon = document.type === 'application/pdf' ? FileText : FileImage;
+        return (
+          <li key={document.id} className="flex items-center gap-3 p-3">
+            <Icon className="w-5 h-5 shrink-0 text-primary" />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{document.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatFileSize(document.size)} · Uploaded {format(new Date(document.uploadedAt), 'MMM d, yyyy')}
+              </p>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onView(document)}>
+              <Eye className="w-4 h-4 mr-1" />
+              View
+            </Button>
+            {onRemove && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label={`Remove ${document.name}`}
+                onClick={() => onRemove(document)}
+                disabled={removingId === document.id}
+              >
+                {removingId === document.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                )}
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
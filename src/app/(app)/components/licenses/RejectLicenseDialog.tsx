@@ -0,0 +1,84 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { rejectionSchema, type Rejection } from '../../lib/licenses';
+import { Loader2 } from 'lucide-react';
+
+interface RejectLicenseDialogProps {
+  doctorName: string | null; // open while set
+  onOpenChange: (open: boolean) => void;
+  isPending?: boolean;
+  onConfirm: (reason: string) => void;
+}
+
+// The reason is sent to the doctor as is, so it should say what to fix
+export function RejectLicenseDialog({ doctorName, onOpenChange, isPending = false, onConfirm }: RejectLicenseDialogProps) {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<Rejection>({
+    resolver: zodResolver(rejectionSchema),
+    defaultValues: { reason: '' },
+  });
+
+  useEffect(() => {
+    if (doctorName) reset({ reason: '' });
+  }, [doctorName, reset]);
+
+  return (
+    <AlertDialog open={Boolean(doctorName)} onOpenChange={(open) => !isPending && onOpenChange(open)}>
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit(({ reason }) => onConfirm(reason))} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reject license</AlertDialogTitle>
+            <AlertDialogDescription>
+              {doctorName} stays out of the directory and is asked to upload corrected documents.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Reason</Label>
+            <Textarea
+              id="reject-reason"
+              {...register('reason')}
+              placeholder="The license scan is cut off. Please upload the full document."
+              className="min-h-[100px]"
+            />
+            <p className="text-sm text-muted-foreground">The doctor sees this in their notification and email.</p>
+            {errors.reason && <p className="text-sm text-destructive">{errors.reason.message}</p>}
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel type="button" disabled={isPending}>
+              Back
+            </AlertDialogCancel>
+            <Button type="submit" variant="destructive" disabled={isPending}>
+              {isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Rejecting...
+                </>
+              ) : (
+                'Reject license'
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,44 @@
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { licensesAPI } from '../../lib/api';
+import type { DoctorVerification } from '../../lib/licenses';
+import { useAuthStore } from '../../store/authStor';
+import { ShieldAlert } from 'lucide-react';
+
+// Shown to doctors who aren't in the directory yet, with what to do about it
+export function VerificationBanner() {
+  const userId = useAuthStore((state) => state.user?.id);
+
+  const { data: verification } = useQuery<DoctorVerification, Error>({
+    queryKey: ['doctor-verification', userId],
+    queryFn: () => licensesAPI.getMine(),
+  });
+
+  if (!verification || verification.status === 'verified') return null;
+
+  const rejected = verification.status === 'rejected';
+  const waiting = verification.documents.length === 0;
+
+  return (
+    <Alert variant={rejected ? 'destructive' : 'default'} className="mb-8 shadow-card">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>
+        {rejected ? 'Your license was not verified' : waiting ? 'Verify your license' : 'Your license is being reviewed'}
+      </AlertTitle>
+      <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <span>
+          {rejected
+            ? verification.review?.reason
+            : waiting
+              ? "Patients can't find or book you until an admin has checked your license documents."
+              : "Patients can't find or book you yet. We'll notify you once your documents have been checked."}
+        </span>
+        <Button variant="outline" size="sm" asChild className="shrink-0">
+          <Link to="/doctor/verification">{rejected || waiting ? 'Upload documents' : 'View status'}</Link>
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { CodeInput } from '../auth/CodeInput';
+import { ResendCodeButton } from '../auth/ResendCodeButton';
+import { useToast } from '../../hooks/use-toast';
+import {
+  CODE_LENGTH,
+  emailChangeSchema,
+  verificationCodeSchema,
+  type EmailChange,
+  type PendingVerification,
+  type VerificationCode,
+} from '../../lib/account';
+import { accountAPI } from '../../lib/api';
+import { RateLimitError } from '../../lib/errors';
+import { applyFieldErrors } from '../../lib/forms';
+import { useAuthStore, type User } from '../../store/authStor';
+import { Loader2, Mail } from 'lucide-react';
+
+// Two steps: ask for the new address (plus the password), then confirm the code sent to it
+export function ChangeEmailCard() {
+  const { toast } = useToast();
+  const { user, updateUser } = useAuthStore();
+  const [pending, setPending] = useState<PendingVerification | null>(null);
+  // Resending repeats the first request, password included
+  const [lastRequest, setLastRequest] = useState<EmailChange | null>(null);
+
+  const emailForm = useForm<EmailChange>({
+    resolver: zodResolver(emailChangeSchema),
+    defaultValues: { email: '', currentPassword: '' },
+  });
+
+  const codeForm = useForm<VerificationCode>({
+    resolver: zodResolver(verificationCodeSchema),
+    defaultValues: { code: '' },
+  });
+
+  const requestMutation = useMutation<PendingVerification, Error, EmailChange>({
+    mutationFn: (data) => accountAPI.requestEmailChange(data),
+    onSuccess: (sent, data) => {
+      setPending(sent);
+      setLastRequest(data);
+      codeForm.reset({ code: '' });
+      toast({ title: 'Check your inbox', description: `We sent a ${CODE_LENGTH}-digit code to ${sent.sentTo}.` });
+    },
+    onError: (err) => {
+      if (err instanceof RateLimitError) {
+        setPending((current) => current && { ...current, resendAt: err.retryAt });
+      } else if (applyFieldErrors(err, emailForm.setError, ['email', 'currentPassword'])) {
+        return;
+      }
+      toast({
+        title: 'Code not sent',
+        description: err.message || 'Unable to send a verification code',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const verifyMutation = useMutation<User, Error, string>({
+    mutationFn: (code) => accountAPI.verifyEmailChange(code),
+    onSuccess: (updated) => {
+      updateUser({ email: updated.email });
+      setPending(null);
+      emailForm.reset({ email: '', currentPassword: '' });
+      toast({ title: 'Email changed', description: `You'll now sign in with ${updated.email}.` });
+    },
+    onError: (err) => {
+      codeForm.setValue('code', '');
+      if (applyFieldErrors(err, codeForm.setError, ['code'])) return;
+      toast({
+        title: 'Email not changed',
+        description: err.message || 'Unable to verify the code',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const emailErrors = emailForm.formState.errors;
+  const codeErrors = codeForm.formState.errors;
+
+  return (
+    <Card className="shadow-card bg-gradient-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="w-5 h-5 text-primary" />
+          Email address
+        </CardTitle>
+        <CardDescription>
+          You sign in with <span className="font-medium text-foreground">{user?.email}</span>. A new address has to be
+          confirmed before it's used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pending ? (
+          <form onSubmit={codeForm.handleSubmit(({ code }) => verifyMutation.mutate(code))} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Enter the code we sent to <span className="font-medium text-foreground">{pending.sentTo}</span>.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="emailCode">Verification code</Label>
+              <Controller
+                control={codeForm.control}
+                name="code"
+                render={({ field }) => (
+                  <CodeInput
+                    id="emailCode"
+                    value={field.value}
+                    onChange={field.onChange}
+                    disabled={verifyMutation.isPending}
+                    invalid={Boolean(codeErrors.code)}
+                  />
+                )}
+              />
+              {codeErrors.code && <p className="text-sm text-destructive">{codeErrors.code.message}</p>}
+              <p className="text-sm text-muted-foreground">
+                Didn't get it?{' '}
+                <ResendCodeButton
+                  resendAt={pending.resendAt}
+                  isPending={requestMutation.isPending}
+                  onResend={() => lastRequest && requestMutation.mutate(lastRequest)}
+                />
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button type="submit" variant="medical" disabled={verifyMutation.isPending}>
+                {verifyMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Confirm new email'
+                )}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setPending(null)}>
+                Use a different address
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={emailForm.handleSubmit((values) => requestMutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="newEmail">New email</Label>
+                <Input id="newEmail" type="email" autoComplete="email" {...emailForm.register('email')} />
+                {emailErrors.email && <p className="text-sm text-destructive">{emailErrors.email.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="emailPassword">Current password</Label>
+                <Input
+                  id="emailPassword"
+                  type="password"
+                  autoComplete="current-password"
+                  {...emailForm.register('currentPassword')}
+                />
+                {emailErrors.currentPassword && (
+                  <p className="text-sm text-destructive">{emailErrors.currentPassword.message}</p>
+                )}
+              </div>
+            </div>
+            <Button type="submit" variant="medical" disabled={requestMutation.isPending}>
+              {requestMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                'Send verification code'
+              )}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { useToast } from '../../hooks/use-toast';
+import { passwordChangeSchema, type PasswordChange } from '../../lib/account';
+import { accountAPI } from '../../lib/api';
+import { applyFieldErrors } from '../../lib/forms';
+import { useAuthStore } from '../../store/authStor';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+const passwordFormSchema = passwordChangeSchema
+  .extend({ confirmPassword: z.string() })
+  .refine((values) => values.newPassword === values.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+type PasswordForm = z.infer<typeof passwordFormSchema>;
+
+const EMPTY_FORM: PasswordForm = { currentPassword: '', newPassword: '', confirmPassword: '' };
+
+export function ChangePasswordCard() {
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<PasswordForm>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const changeMutation = useMutation<null, Error, PasswordChange>({
+    // Read when sending, in case the token was refreshed while the form was open
+    mutationFn: (data) => accountAPI.changePassword(data, useAuthStore.getState().refreshToken),
+    onSuccess: () => {
+      reset(EMPTY_FORM);
+      toast({
+        title: 'Password changed',
+        description: "You've been signed out on your other devices. Use your new password next time you sign in.",
+      });
+    },
+    onError: (err) => {
+      if (applyFieldErrors(err, setError, ['currentPassword', 'newPassword'])) return;
+      toast({
+        title: 'Password not changed',
+        description: err.message || 'Unable to change your password',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card className="shadow-card bg-gradient-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-primary" />
+          Password
+        </CardTitle>
+        <CardDescription>You'll need your current password to set a new one.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={handleSubmit(({ currentPassword, newPassword }) => changeMutation.mutate({ currentPassword, newPassword }))}
+          className="space-y-4"
+        >
+          <div className="space-y-2 sm:max-w-sm">
+            <Label htmlFor="currentPassword">Current password</Label>
+            <Input id="currentPassword" type="password" autoComplete="current-password" {...register('currentPassword')} />
+            {errors.currentPassword && <p className="text-sm text-destructive">{errors.currentPassword.message}</p>}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">New password</Label>
+              <Input id="newPassword" type="password" autoComplete="new-password" {...register('newPassword')} />
+              {errors.newPassword && <p className="text-sm text-destructive">{errors.newPassword.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm new password</Label>
+              <Input id="confirmPassword" type="password" autoComplete="new-password" {...register('confirmPassword')} />
+              {errors.confirmPassword && <p className="text-sm text-destructive">{errors.confirmPassword.message}</p>}
+            </div>
+          </div>
+          <Button type="submit" variant="medical" disabled={changeMutation.isPending}>
+            {changeMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Change password'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
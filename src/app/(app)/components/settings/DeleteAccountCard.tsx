@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { useToast } from '../../hooks/use-toast';
+import { accountAPI } from '../../lib/api';
+import { useAuthStore } from '../../store/authStor';
+import { Loader2, Trash2 } from 'lucide-react';
+
+export function DeleteAccountCard() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user, logout } = useAuthStore();
+  const [confirming, setConfirming] = useState(false);
+
+  const deleteMutation = useMutation<null, Error, void>({
+    mutationFn: () => accountAPI.deleteAccount(),
+    onSuccess: () => {
+      setConfirming(false);
+      logout();
+      queryClient.clear();
+      navigate('/', { replace: true });
+      toast({ title: 'Account deleted', description: 'Your upcoming appointments have been cancelled.' });
+    },
+    onError: (err) => {
+      toast({
+        title: 'Account not deleted',
+        description: err.message || 'Unable to delete your account',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const other = user?.role === 'doctor' ? 'patients' : 'doctors';
+
+  return (
+    <Card className="shadow-card border-destructive/40">
+      <CardHeader>
+        <CardTitle className="text-destructive">Delete account</CardTitle>
+        <CardDescription>
+          Permanently close your account. Upcoming appointments are cancelled and your {other} are notified.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button variant="destructive" onClick={() => setConfirming(true)}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete my account
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={confirming} onOpenChange={(open) => !deleteMutation.isPending && setConfirming(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This can't be undone. You'll be signed out, every upcoming appointment will be cancelled and your {other}{' '}
+              will be told.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel type="button" disabled={deleteMutation.isPending}>
+              Keep my account
+            </AlertDialogCancel>
+            <Button variant="destructive" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete account'
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+
+function secondsUntil(until: string | null | undefined) {
+  return until ? Math.max(Math.ceil((Date.parse(until) - Date.now()) / 1000), 0) : 0;
+}
+
+// Whole seconds left until `until` (an ISO string), ticking down to 0
+export function useCountdown(until: string | null | undefined) {
+  const [seconds, setSeconds] = useState(() => secondsUntil(until));
+
+  useEffect(() => {
+    setSeconds(secondsUntil(until));
+    if (!until) return;
+    const timer = window.setInterval(() => {
+      const left = secondsUntil(until);
+      setSeconds(left);
+      if (left === 0) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [until]);
+
+  return seconds;
+}
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { availabilityAPI } from '../lib/api';
+import type { AvailabilityRules } from '../lib/availability';
+
+// A doctor's bookable hours. The slot picker shows them and the booking forms turn the picked slot into a
+// time with them, so both read the same cached query.
+export function useDoctorAvailability(doctorId: string | undefined, enabled = true) {
+  return useQuery<AvailabilityRules, Error>({
+    queryKey: ['doctor-availability', doctorId],
+    queryFn: () => availabilityAPI.getForDoctor(doctorId!),
+    enabled: Boolean(doctorId) && enabled,
+  });
+}
@@ -0,0 +1,82 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { API_BASE } from '../../../utils/constants';
+import type { DoctorAppointment, PatientAppointment } from '../lib/appointments';
+import { APPOINTMENT_EVENT, EVENTS_PATH, NOTIFICATION_EVENT, upsertById } from '../lib/events';
+import { freshAccessToken } from '../lib/http';
+import { isLicenseNotification, type AppNotification, type NotificationFeed } from '../lib/notifications';
+import { useAuthStore } from '../store/authStor';
+
+// How long to wait before reopening a stream the server refused (usually an expired token)
+const RECONNECT_MS = 5000;
+
+// Keeps the signed-in user's appointment list and notifications current by applying pushed changes
+// to the query cache. After a reconnect both are refetched, since changes made while offline weren't pushed.
+export function useLiveUpdates() {
+  const queryClient = useQueryClient();
+  const userId = useAuthStore((state) => state.user?.id);
+  const role = useAuthStore((state) => state.user?.role);
+
+  useEffect(() => {
+    if (!userId || !role) return;
+    const listKey = role === 'doctor' ? ['doctor-appointments'] : ['patient-appointments'];
+
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    let connectedBefore = false;
+
+    const onAppointment = (event: MessageEvent<string>) => {
+      const appointment = JSON.parse(event.data) as DoctorAppointment | PatientAppointment;
+      queryClient.setQueryData<(DoctorAppointment | PatientAppointment)[]>(listKey, (current) =>
+        current ? upsertById(current, appointment) : current
+      );
+      if (role === 'doctor') queryClient.invalidateQueries({ queryKey: ['patient-history', appointment.patientId] });
+    };
+
+    const onNotification = (event: MessageEvent<string>) => {
+      const notification = JSON.parse(event.data) as AppNotification;
+      queryClient.setQueryData<NotificationFeed>(['notifications', userId], (current) =>
+        current && { items: [notification, ...current.items], unread: current.unread + 1 }
+      );
+      // An admin decided on the license; the verification page and dashboard banner show the outcome
+      if (isLicenseNotification(notification)) {
+        queryClient.invalidateQueries({ queryKey: ['doctor-verification', userId] });
+      }
+    };
+
+    const connect = async () => {
+      let token: string;
+      try {
+        token = await freshAccessToken();
+      } catch {
+        return; // the session is over and the user is being sent to sign in
+      }
+      if (stopped) return;
+
+      source = new EventSource(`${API_BASE}${EVENTS_PATH}?token=${encodeURIComponent(token)}`);
+      source.addEventListener(APPOINTMENT_EVENT, onAppointment);
+      source.addEventListener(NOTIFICATION_EVENT, onNotification);
+      source.onopen = () => {
+        if (connectedBefore) {
+          queryClient.invalidateQueries({ queryKey: listKey });
+          queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+        }
+        connectedBefore = true;
+      };
+      // Dropped connections are retried by the browser; a refused one is closed for good, so start over
+      source.onerror = () => {
+        if (source?.readyState !== EventSource.CLOSED) return;
+        source.close();
+        retry = setTimeout(connect, RECONNECT_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      source?.close();
+    };
+  }, [queryClient, userId, role]);
+}
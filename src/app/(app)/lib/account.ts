@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+// Account settings, email verification and password reset requests. Shared by the forms and the mock server.
+
+// Same rule as registration
+export const passwordRule = z.string().min(6, 'Password must be at least 6 characters');
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, 'Enter your current password'),
+  newPassword: passwordRule,
+});
+
+export type PasswordChange = z.infer<typeof passwordChangeSchema>;
+
+export const emailChangeSchema = z.object({
+  email: z.string().trim().email('Please enter a valid email address'),
+  currentPassword: z.string().min(1, 'Enter your current password'),
+});
+
+export type EmailChange = z.infer<typeof emailChangeSchema>;
+
+export const CODE_LENGTH = 6;
+
+const code = z.string().regex(new RegExp(`^\\d{${CODE_LENGTH}}$`), `Enter the ${CODE_LENGTH}-digit code`);
+
+export const verificationCodeSchema = z.object({ code });
+
+export type VerificationCode = z.infer<typeof verificationCodeSchema>;
+
+// Signing up: the code emailed to the new account's address
+export const emailVerificationSchema = z.object({
+  email: z.string().trim().email('Please enter a valid email address'),
+  code,
+});
+
+export type EmailVerification = z.infer<typeof emailVerificationSchema>;
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email('Please enter a valid email address'),
+});
+
+export type PasswordResetRequest = z.infer<typeof passwordResetRequestSchema>;
+
+export const passwordResetSchema = passwordResetRequestSchema.extend({ code, newPassword: passwordRule });
+
+export type PasswordReset = z.infer<typeof passwordResetSchema>;
+
+// A code went out. Both times are ISO strings; another code can't be requested before `resendAt`.
+export interface PendingVerification {
+  sentTo: string;
+  expiresAt: string;
+  resendAt: string;
+}
@@ -1,112 +1,374 @@
+import type { Doctor, DoctorSearchParams, Paginated } from '../../../types/types';
+import type { User } from '../store/authStor';
+import {
+  assertCancellationWindow,
+  assertReschedulable,
+  assertTransition,
+  type Appointment,
+  type AppointmentStatus,
+  type BulkStatusResult,
+  type BusyInterval,
+  type DoctorAppointment,
+  type PatientAppointment,
+} from './appointments';
+import type {
+  EmailChange,
+  EmailVerification,
+  PasswordChange,
+  PasswordReset,
+  PendingVerification,
+} from './account';
+import type { AvailabilityRules } from './availability';
+import type {
+  DoctorVerification,
+  LicenseFile,
+  LicenseUpload,
+  ReviewDecision,
+  VerificationRequest,
+  VerificationStatus,
+} from './licenses';
+import type { AppNotification, NotificationFeed } from './notifications';
+import type { PrescriptionInput } from './prescriptions';
+import type { DoctorProfile, PatientProfile } from './profiles';
+import type { ReminderPreferences } from './reminders';
+import type { PatientHistory, VisitRecordInput } from './records';
+import { request } from './http';
+
+export type AuthResponse = { user: User; token: string; refreshToken: string };
+
+export type LoginPayload = { email: string; password: string; role: User['role'] };
+
+export type PatientRegistration = { name: string; email: string; password: string; phone: string };
+
+export type DoctorRegistration = PatientRegistration & { specialization: string; licenseNumber: string };
+
 // authAPI
 export const authAPI = {
-  login: async (data: { email: string; password: string; role: 'patient' | 'doctor' }) => {
-    await mockDelay(800);
-    const { email, role } = data;
-
-    const mockUser = {
-      id: '1',
-      email,
-      name: role === 'doctor' ? 'Dr. John Smith' : 'Jane Doe',
-      role,
-      specialization: role === 'doctor' ? 'Cardiologist' : undefined,
-      phone: '+1 (555) 123-4567',
-      avatar: `https://api.dicebear.com/6.x/avataaars/svg?seed=${email}`,
-    };
-
-    return { user: mockUser, token: 'mock-jwt-token-' + Date.now() };
+  login: (data: LoginPayload) =>
+    request<AuthResponse>(
+      '/auth/login',
+      { method: 'POST', body: JSON.stringify(data) },
+      'Failed to sign in',
+      { anonymous: true }
+    ),
+
+  // Registration emails a code; the account can sign in once verifyEmail accepts it
+  registerPatient: (data: PatientRegistration) =>
+    request<PendingVerification>(
+      '/auth/register/patient',
+      { method: 'POST', body: JSON.stringify(data) },
+      'Failed to create patient account',
+      { anonymous: true }
+    ),
+
+  registerDoctor: (data: DoctorRegistration) =>
+    request<PendingVerification>(
+      '/auth/register/doctor',
+      { method: 'POST', body: JSON.stringify(data) },
+      'Failed to create doctor account',
+      { anonymous: true }
+    ),
+
+  verifyEmail: (data: EmailVerification) =>
+    request<AuthResponse>(
+      '/auth/verify-email',
+      { method: 'POST', body: JSON.stringify(data) },
+      'Failed to verify email',
+      { anonymous: true }
+    ),
+
+  resendVerification: (email: string) =>
+    request<PendingVerification>(
+      '/auth/verify-email/resend',
+      { method: 'POST', body: JSON.stringify({ email }) },
+      'Failed to send a new code',
+      { anonymous: true }
+    ),
+
+  requestPasswordReset: (email: string) =>
+    request<PendingVerification>(
+      '/auth/password/forgot',
+      { method: 'POST', body: JSON.stringify({ email }) },
+      'Failed to send a reset code',
+      { anonymous: true }
+    ),
+
+  resetPassword: (data: PasswordReset) =>
+    request<null>(
+      '/auth/password/reset',
+      { method: 'POST', body: JSON.stringify(data) },
+      'Failed to reset password',
+      { anonymous: true }
+    ),
+};
+
+export const accountAPI = {
+  // The session holding `refreshToken` stays signed in; every other one is signed out
+  changePassword: (data: PasswordChange, refreshToken?: string | null) =>
+    request<null>(
+      '/account/password',
+      { method: 'PUT', body: JSON.stringify({ ...data, refreshToken }) },
+      'Failed to change password'
+    ),
+
+  // Sends a code to the new address; the change only applies once verifyEmailChange succeeds
+  requestEmailChange: (data: EmailChange) =>
+    request<PendingVerification>(
+      '/account/email',
+      { method: 'POST', body: JSON.stringify(data) },
+      'Failed to send verification code'
+    ),
+
+  verifyEmailChange: (code: string) =>
+    request<User>(
+      '/account/email/verify',
+      { method: 'POST', body: JSON.stringify({ code }) },
+      'Failed to verify email'
+    ),
+
+  // Also cancels the user's upcoming appointments
+  deleteAccount: () => request<null>('/account', { method: 'DELETE' }, 'Failed to delete account'),
+};
+
+export type BookingPayload = {
+  doctorId: string;
+  date: string;
+  notes?: string;
+};
+
+export const appointmentsAPI = {
+  getDoctorAppointments: () =>
+    request<DoctorAppointment[]>('/appointments/doctor', { method: 'GET' }, 'Failed to fetch appointments'),
+
+  getPatientAppointments: () =>
+    request<PatientAppointment[]>('/appointments/patient', { method: 'GET' }, 'Failed to fetch appointments'),
+
+  // Checked against the transition table before it goes out; the server enforces the same table
+  // `reason` is required when cancelling
+  updateStatus: async (appointment: Pick<Appointment, 'id' | 'status'>, status: AppointmentStatus, reason?: string) => {
+    assertTransition(appointment.status, status, 'doctor');
+    return request<DoctorAppointment>(
+      `/appointments/${appointment.id}/status`,
+      { method: 'PATCH', body: JSON.stringify(status === 'cancelled' ? { status, reason } : { status }) },
+      'Failed to update appointment status'
+    );
   },
 
-  registerPatient: async (data: { name: string; email: string; password: string; phone: string }) => {
-    await mockDelay(1000);
-    const mockUser = {
-      id: '2',
-      email: data.email,
-      name: data.name,
-      role: 'patient' as const,
-      phone: data.phone,
-      avatar: `https://api.dicebear.com/6.x/avataaars/svg?seed=${data.email}`,
-    };
-    return { user: mockUser, token: 'mock-jwt-token-' + Date.now() };
+  // Same checks as `updateStatus` for every row; the response reports each row separately
+  updateStatusBulk: async (
+    appointments: Pick<Appointment, 'id' | 'status'>[],
+    status: AppointmentStatus,
+    reason?: string
+  ) => {
+    appointments.forEach((appointment) => assertTransition(appointment.status, status, 'doctor'));
+    const ids = appointments.map((appointment) => appointment.id);
+    const { results } = await request<{ results: BulkStatusResult[] }>(
+      '/appointments/status',
+      { method: 'PATCH', body: JSON.stringify(status === 'cancelled' ? { ids, status, reason } : { ids, status }) },
+      'Failed to update appointments'
+    );
+    return results;
   },
 
-  registerDoctor: async (data: { name: string; email: string; password: string; specialization: string; phone: string; licenseNumber: string }) => {
-    await mockDelay(1200);
-    const mockUser = {
-      id: '3',
-      email: data.email,
-      name: data.name,
-      role: 'doctor' as const,
-      specialization: data.specialization,
-      phone: data.phone,
-      avatar: `https://api.dicebear.com/6.x/avataaars/svg?seed=${data.email}`,
-    };
-    return { user: mockUser, token: 'mock-jwt-token-' + Date.now() };
+  cancelAppointment: async (
+    appointment: Pick<PatientAppointment, 'id' | 'status' | 'date' | 'cancellationWindowHours'>,
+    reason: string
+  ) => {
+    assertTransition(appointment.status, 'cancelled', 'patient');
+    assertCancellationWindow(appointment, appointment.cancellationWindowHours, new Date());
+    return request<PatientAppointment>(
+      `/appointments/${appointment.id}/cancel`,
+      { method: 'PATCH', body: JSON.stringify({ reason }) },
+      'Failed to cancel appointment'
+    );
   },
-};
 
-// Mock delay
-function mockDelay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-export const appointmentsAPI = {
-  getDoctorAppointments: async () => {
-    const res = await fetch('/api/appointments/doctor');
-    if (!res.ok) throw new Error('Failed to fetch appointments');
-    return res.json();
+  // Moves an open appointment to a new slot; the doctor's settings decide whether it needs confirming again.
+  // Closed inside the doctor's cancellation window, like cancelling.
+  reschedule: async (
+    appointment: Pick<PatientAppointment, 'id' | 'status' | 'date' | 'cancellationWindowHours'>,
+    date: string
+  ) => {
+    assertReschedulable(appointment.status);
+    assertCancellationWindow(appointment, appointment.cancellationWindowHours, new Date(), 'reschedule');
+    return request<PatientAppointment>(
+      `/appointments/${appointment.id}/reschedule`,
+      { method: 'PATCH', body: JSON.stringify({ date }) },
+      'Failed to reschedule appointment'
+    );
   },
 
-  getPatientAppointments: async () => {
-    const res = await fetch('/api/appointments/patient');
-    if (!res.ok) throw new Error('Failed to fetch appointments');
-    return res.json();
+  // Same move from the doctor's side; the appointment keeps its status
+  rescheduleForDoctor: async (appointment: Pick<Appointment, 'id' | 'status'>, date: string) => {
+    assertReschedulable(appointment.status);
+    return request<DoctorAppointment>(
+      `/appointments/${appointment.id}/reschedule`,
+      { method: 'PATCH', body: JSON.stringify({ date }) },
+      'Failed to move appointment'
+    );
   },
 
-  updateStatus: async (appointmentId: string, status: string) => {
-    const res = await fetch(`/api/appointments/${appointmentId}/status`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ status }),
-    });
-    if (!res.ok) throw new Error('Failed to update appointment status');
-    return res.json();
+  // Appointments that block booking with this doctor between `from` and `to`, including the caller's own.
+  // `excludeId` leaves out the appointment being rescheduled so it doesn't clash with itself.
+  getBusySlots: (doctorId: string, from: Date, to: Date, excludeId?: string) => {
+    const query = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+    if (excludeId) query.set('exclude', excludeId);
+    return request<BusyInterval[]>(`/doctors/${doctorId}/busy?${query}`, { method: 'GET' }, 'Failed to load booked slots');
   },
 
-  cancelAppointment: async (appointmentId: string) => {
-    const res = await fetch(`/api/appointments/${appointmentId}/cancel`, {
-      method: 'PATCH', // or 'POST' depending on your API
-      headers: { 'Content-Type': 'application/json' },
-    });
-    if (!res.ok) throw new Error('Failed to cancel appointment');
-    return res.json();
+  bookAppointment: (data: BookingPayload) =>
+    request<PatientAppointment>(
+      '/appointments/book',
+      { method: 'POST', body: JSON.stringify(data) },
+      'Failed to book appointment'
+    ),
+};
+
+export const doctorsAPI = {
+  search: (params: DoctorSearchParams) => {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') query.set(key, String(value));
+    }
+    return request<Paginated<Doctor>>(`/doctors?${query}`, { method: 'GET' }, 'Failed to search doctors');
   },
-bookAppointment: async (data: {
-  doctorId: string;
-  date: string;
-  consultationFee?: number;   // optional
-  patientId?: string;         // optional
-  notes?: string;
-}) => {
-  const res = await fetch('/api/appointments/book', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data),
-  });
-  if (!res.ok) throw new Error('Failed to book appointment');
-  return res.json();
-},
-}
-
-export type Appointment = {
-  id: string;
-  doctorName: string;
-  doctorAvatar?: string | null;
-  doctorSpecialization?: string;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
-  date: string;
-  consultationFee?: number;
+
+  getMyProfile: () => request<DoctorProfile>('/doctors/me/profile', { method: 'GET' }, 'Failed to load your profile'),
+
+  updateProfile: (profile: DoctorProfile) =>
+    request<DoctorProfile>(
+      '/doctors/me/profile',
+      { method: 'PUT', body: JSON.stringify(profile) },
+      'Failed to save your profile'
+    ),
+};
+
+export const availabilityAPI = {
+  getForDoctor: (doctorId: string) =>
+    request<AvailabilityRules>(`/doctors/${doctorId}/availability`, { method: 'GET' }, 'Failed to load availability'),
+
+  getMine: () =>
+    request<AvailabilityRules>('/doctors/me/availability', { method: 'GET' }, 'Failed to load availability'),
+
+  updateMine: (rules: AvailabilityRules) =>
+    request<AvailabilityRules>(
+      '/doctors/me/availability',
+      { method: 'PUT', body: JSON.stringify(rules) },
+      'Failed to save availability'
+    ),
+};
+
+export const recordsAPI = {
+  saveVisitRecord: (appointmentId: string, record: VisitRecordInput) =>
+    request<DoctorAppointment>(
+      `/appointments/${appointmentId}/record`,
+      { method: 'PUT', body: JSON.stringify(record) },
+      'Failed to save visit notes'
+    ),
+
+  savePrescription: (appointmentId: string, prescription: PrescriptionInput) =>
+    request<DoctorAppointment>(
+      `/appointments/${appointmentId}/prescription`,
+      { method: 'PUT', body: JSON.stringify(prescription) },
+      'Failed to save prescription'
+    ),
+
+  // Every appointment the signed-in doctor has had with this patient
+  getPatientHistory: (patientId: string) =>
+    request<PatientHistory>(`/doctors/me/patients/${patientId}`, { method: 'GET' }, 'Failed to load patient history'),
+};
+
+export const patientsAPI = {
+  getMyProfile: () => request<PatientProfile>('/patients/me/profile', { method: 'GET' }, 'Failed to load your profile'),
+
+  updateProfile: (profile: PatientProfile) =>
+    request<PatientProfile>(
+      '/patients/me/profile',
+      { method: 'PUT', body: JSON.stringify(profile) },
+      'Failed to save your profile'
+    ),
+
+  // Read-only view for a doctor who has seen or booked this patient
+  getProfile: (patientId: string) =>
+    request<PatientProfile>(
+      `/doctors/me/patients/${patientId}/profile`,
+      { method: 'GET' },
+      'Failed to load patient profile'
+    ),
 };
 
+// A doctor's own license verification; documents can change until an admin approves them
+export const licensesAPI = {
+  getMine: () =>
+    request<DoctorVerification>('/doctors/me/verification', { method: 'GET' }, 'Failed to load your verification'),
+
+  getDocument: (documentId: string) =>
+    request<LicenseFile>(
+      `/doctors/me/verification/documents/${documentId}`,
+      { method: 'GET' },
+      'Failed to open the document'
+    ),
+
+  upload: (upload: LicenseUpload) =>
+    request<DoctorVerification>(
+      '/doctors/me/verification/documents',
+      { method: 'POST', body: JSON.stringify(upload) },
+      'Failed to upload the document'
+    ),
+
+  remove: (documentId: string) =>
+    request<DoctorVerification>(
+      `/doctors/me/verification/documents/${documentId}`,
+      { method: 'DELETE' },
+      'Failed to remove the document'
+    ),
+};
+
+export const adminAPI = {
+  listVerifications: (status: VerificationStatus) =>
+    request<VerificationRequest[]>(
+      `/admin/verifications?status=${status}`,
+      { method: 'GET' },
+      'Failed to load verification requests'
+    ),
+
+  getDocument: (doctorId: string, documentId: string) =>
+    request<LicenseFile>(
+      `/admin/verifications/${doctorId}/documents/${documentId}`,
+      { method: 'GET' },
+      'Failed to open the document'
+    ),
+
+  // Approving lists the doctor in the directory; either way the doctor is notified
+  review: (doctorId: string, decision: ReviewDecision) =>
+    request<VerificationRequest>(
+      `/admin/verifications/${doctorId}/review`,
+      { method: 'POST', body: JSON.stringify(decision) },
+      'Failed to save the decision'
+    ),
+};
+
+export const remindersAPI = {
+  getMine: () =>
+    request<ReminderPreferences>('/patients/me/reminders', { method: 'GET' }, 'Failed to load reminder settings'),
+
+  updateMine: (preferences: ReminderPreferences) =>
+    request<ReminderPreferences>(
+      '/patients/me/reminders',
+      { method: 'PUT', body: JSON.stringify(preferences) },
+      'Failed to save reminder settings'
+    ),
+};
+
+export const notificationsAPI = {
+  list: () => request<NotificationFeed>('/notifications', { method: 'GET' }, 'Failed to load notifications'),
+
+  markRead: (id: string) =>
+    request<AppNotification>(`/notifications/${id}/read`, { method: 'PATCH' }, 'Failed to update notification'),
+
+  markAllRead: () =>
+    request<null>('/notifications/read-all', { method: 'POST' }, 'Failed to update notifications'),
+};
 
 export const specializations = [
   'Cardiologist',
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allowedTransitions,
+  APPOINTMENT_STATUSES,
+  assertCancellationWindow,
+  assertTransition,
+  CancellationWindowError,
+  canTransition,
+  InvalidTransitionError,
+} from './appointments';
+
+describe('appointment transitions', () => {
+  it('lets doctors confirm, complete and cancel in order', () => {
+    expect(allowedTransitions('pending', 'doctor')).toEqual(['confirmed', 'cancelled']);
+    expect(allowedTransitions('confirmed', 'doctor')).toEqual(['completed', 'cancelled']);
+  });
+
+  it('only lets patients cancel an open appointment', () => {
+    expect(allowedTransitions('pending', 'patient')).toEqual(['cancelled']);
+    expect(allowedTransitions('confirmed', 'patient')).toEqual(['cancelled']);
+    expect(canTransition('pending', 'confirmed', 'patient')).toBe(false);
+    expect(canTransition('confirmed', 'completed', 'patient')).toBe(false);
+  });
+
+  it('does not complete an appointment that was never confirmed', () => {
+    expect(canTransition('pending', 'completed', 'doctor')).toBe(false);
+  });
+
+  it('treats completed and cancelled as final', () => {
+    for (const to of APPOINTMENT_STATUSES) {
+      expect(canTransition('completed', to, 'doctor')).toBe(false);
+      expect(canTransition('cancelled', to, 'doctor')).toBe(false);
+    }
+  });
+
+  it('throws on a move that is not allowed', () => {
+    expect(() => assertTransition('confirmed', 'completed', 'doctor')).not.toThrow();
+    expect(() => assertTransition('cancelled', 'confirmed', 'doctor')).toThrow(InvalidTransitionError);
+  });
+});
+
+describe('cancellation window', () => {
+  const appointment = { date: '2026-01-05T09:00:00.000Z' };
+
+  it('closes the given number of hours before the appointment', () => {
+    expect(() => assertCancellationWindow(appointment, 24, new Date('2026-01-04T08:59:00.000Z'))).not.toThrow();
+    expect(() => assertCancellationWindow(appointment, 24, new Date('2026-01-04T09:00:00.000Z'))).toThrow(
+      CancellationWindowError
+    );
+  });
+
+  it('says which change it blocked', () => {
+    expect(() => assertCancellationWindow(appointment, 24, new Date('2026-01-05T08:00:00.000Z'), 'reschedule')).toThrow(
+      /too close to reschedule online/
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import type { Prescription } from './prescriptions';
+import type { VisitRecord } from './records';
+
+// Canonical appointment model shared by the doctor and patient screens, appointmentsAPI and the mock server.
+
+export const APPOINTMENT_STATUSES = ['pending', 'confirmed', 'completed', 'cancelled'] as const;
+
+export type AppointmentStatus = (typeof APPOINTMENT_STATUSES)[number];
+
+export type AppointmentActor = 'patient' | 'doctor';
+
+// One move of an appointment to a new time, newest last
+export interface AppointmentChange {
+  at: string; // ISO string
+  by: AppointmentActor;
+  fromDate: string; // ISO string
+  toDate: string; // ISO string
+  fromStatus: AppointmentStatus;
+  toStatus: AppointmentStatus;
+}
+
+// Who called an appointment off, when, and why
+export interface Cancellation {
+  at: string; // ISO string
+  by: AppointmentActor;
+  reason: string;
+}
+
+export interface Appointment {
+  id: string;
+  doctorId: string;
+  patientId: string;
+  date: string; // ISO string
+  durationMinutes: number;
+  status: AppointmentStatus;
+  consultationFee?: number;
+  notes?: string;
+  history?: AppointmentChange[];
+  cancellation?: Cancellation;
+  // The doctor's notes on the visit; never sent to the patient
+  record?: VisitRecord;
+  // Written once the appointment is completed; the patient can view and print it
+  prescription?: Prescription;
+
+  doctorName: string;
+  doctorAvatar?: string | null;
+  doctorSpecialization?: string;
+
+  patientName: string;
+  patientEmail: string;
+  patientAvatar?: string | null;
+}
+
+type AppointmentCore = Pick<
+  Appointment,
+  'id' | 'doctorId' | 'patientId' | 'date' | 'durationMinutes' | 'status' | 'consultationFee' | 'notes' | 'history' | 'cancellation' | 'prescription'
+>;
+
+// What a doctor sees: the appointment plus who the patient is and the visit record
+export type DoctorAppointment = AppointmentCore &
+  Pick<Appointment, 'patientName' | 'patientEmail' | 'patientAvatar' | 'record'>;
+
+// What a patient sees: the appointment plus who the doctor is and how much notice they need to cancel
+export type PatientAppointment = AppointmentCore &
+  Pick<Appointment, 'doctorName' | 'doctorAvatar' | 'doctorSpecialization'> & { cancellationWindowHours: number };
+
+// pending -> confirmed -> completed, and any open appointment can be cancelled
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, readonly AppointmentStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// Patients may only withdraw; every other move is the doctor's call
+const ACTOR_TARGETS: Record<AppointmentActor, readonly AppointmentStatus[]> = {
+  doctor: ['confirmed', 'completed', 'cancelled'],
+  patient: ['cancelled'],
+};
+
+export function allowedTransitions(from: AppointmentStatus, actor: AppointmentActor): AppointmentStatus[] {
+  return APPOINTMENT_TRANSITIONS[from].filter((to) => ACTOR_TARGETS[actor].includes(to));
+}
+
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus, actor: AppointmentActor) {
+  return allowedTransitions(from, actor).includes(to);
+}
+
+export class InvalidTransitionError extends Error {
+  readonly from: AppointmentStatus;
+  readonly to: AppointmentStatus;
+
+  constructor(from: AppointmentStatus, to: AppointmentStatus) {
+    super(`Cannot move an appointment from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function assertTransition(from: AppointmentStatus, to: AppointmentStatus, actor: AppointmentActor) {
+  if (!canTransition(from, to, actor)) throw new InvalidTransitionError(from, to);
+}
+
+// Longest note a patient may leave when booking
+export const MAX_NOTES_LENGTH = 1000;
+
+// Most appointments one bulk status change may touch
+export const MAX_BULK = 50;
+
+// Outcome of one row in a bulk status change
+export type BulkStatusResult =
+  | { id: string; ok: true; appointment: DoctorAppointment }
+  | { id: string; ok: false; code: string; message: string };
+
+// Statuses that still hold their slot
+export function isActive(status: AppointmentStatus) {
+  return status === 'pending' || status === 'confirmed';
+}
+
+// Only appointments still holding a slot can be moved to another one
+export function canReschedule(status: AppointmentStatus) {
+  return isActive(status);
+}
+
+// What a doctor wants to happen to an appointment's status when the patient moves it
+export type RescheduleStatusPolicy = 'pending' | 'keep';
+
+export function rescheduledStatus(status: AppointmentStatus, policy: RescheduleStatusPolicy): AppointmentStatus {
+  return policy === 'pending' ? 'pending' : status;
+}
+
+export class InvalidRescheduleError extends Error {
+  readonly status: AppointmentStatus;
+
+  constructor(status: AppointmentStatus) {
+    super(`A ${status} appointment cannot be rescheduled`);
+    this.name = 'InvalidRescheduleError';
+    this.status = status;
+  }
+}
+
+export function assertReschedulable(status: AppointmentStatus) {
+  if (!canReschedule(status)) throw new InvalidRescheduleError(status);
+}
+
+export const OTHER_REASON = 'Other';
+
+// Offered in the cancel dialog; OTHER_REASON asks for free text instead
+export const CANCELLATION_REASONS: Record<AppointmentActor, readonly string[]> = {
+  patient: ['Feeling better', 'Schedule conflict', 'Found another doctor', 'Cost', OTHER_REASON],
+  doctor: ['Doctor unavailable', 'Emergency', 'Patient requested', 'Duplicate booking', OTHER_REASON],
+};
+
+// Patients can't cancel or reschedule once the appointment is closer than the doctor's window; doctors always can.
+// Moving it would free the slot just like cancelling.
+export function cancellationDeadline(appointment: Pick<Appointment, 'date'>, windowHours: number) {
+  return new Date(new Date(appointment.date).getTime() - windowHours * 3_600_000);
+}
+
+export function isCancellationWindowOpen(appointment: Pick<Appointment, 'date'>, windowHours: number, now: Date) {
+  return now < cancellationDeadline(appointment, windowHours);
+}
+
+export type WindowedChange = 'cancel' | 'reschedule';
+
+export class CancellationWindowError extends Error {
+  readonly deadline: Date;
+
+  constructor(deadline: Date, change: WindowedChange = 'cancel') {
+    super(`This appointment is too close to ${change} online. Please contact the clinic.`);
+    this.name = 'CancellationWindowError';
+    this.deadline = deadline;
+  }
+}
+
+export function assertCancellationWindow(
+  appointment: Pick<Appointment, 'date'>,
+  windowHours: number,
+  now: Date,
+  change: WindowedChange = 'cancel'
+) {
+  if (!isCancellationWindowOpen(appointment, windowHours, now)) {
+    throw new CancellationWindowError(cancellationDeadline(appointment, windowHours), change);
+  }
+}
+
+// A stretch of time that can't be booked, and whose calendar it belongs to
+export interface BusyInterval {
+  start: string; // ISO string
+  end: string; // ISO string
+  owner: 'doctor' | 'patient';
+}
+
+export function appointmentEnd(appointment: Pick<Appointment, 'date' | 'durationMinutes'>) {
+  return new Date(new Date(appointment.date).getTime() + appointment.durationMinutes * 60_000);
+}
+
+export function intervalsOverlap(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+export function isAppointmentStatus(value: unknown): value is AppointmentStatus {
+  return APPOINTMENT_STATUSES.includes(value as AppointmentStatus);
+}
+
+export function getStatusColor(status: AppointmentStatus) {
+  switch (status) {
+    case 'confirmed':
+      return 'bg-success text-success-foreground';
+    case 'pending':
+      return 'bg-warning text-warning-foreground';
+    case 'completed':
+      return 'bg-primary text-primary-foreground';
+    case 'cancelled':
+      return 'bg-destructive text-destructive-foreground';
+    default:
+      return 'bg-muted text-muted-foreground';
+  }
+}
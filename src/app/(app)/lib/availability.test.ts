@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { intervalsOverlap } from './appointments';
+import {
+  DEFAULT_AVAILABILITY,
+  generateSlots,
+  isOffered,
+  nearestFreeSlots,
+  slotAt,
+  slotToDate,
+  type AvailabilityRules,
+} from './availability';
+
+const MONDAY = '2026-01-05';
+
+const rules = (overrides: Partial<AvailabilityRules> = {}): AvailabilityRules => ({ ...DEFAULT_AVAILABILITY, ...overrides });
+
+describe('generateSlots', () => {
+  it('fills working hours with whole slots and skips the lunch break', () => {
+    expect(generateSlots(rules(), MONDAY)).toEqual([
+      '09:00', '09:30', '10:00', '10:30', '11:00', '11:30',
+      '14:00', '14:30', '15:00', '15:30', '16:00', '16:30', '17:00',
+    ]);
+  });
+
+  it('drops slots that only partly overlap a break', () => {
+    const slots = generateSlots(rules({ breaks: [{ start: '10:15', end: '10:45' }] }), MONDAY);
+    expect(slots).not.toContain('10:00');
+    expect(slots).not.toContain('10:30');
+    expect(slots).toContain('09:30');
+    expect(slots).toContain('11:00');
+  });
+
+  it('leaves out a slot that would run past the end of the day', () => {
+    const slots = generateSlots(rules({ slotMinutes: 45, breaks: [] }), MONDAY);
+    expect(slots.at(-1)).toBe('16:30');
+  });
+
+  it('has nothing on a day the doctor does not work', () => {
+    expect(generateSlots(rules(), '2026-01-04')).toEqual([]);
+  });
+
+  it('has nothing on a day off', () => {
+    expect(generateSlots(rules({ daysOff: [MONDAY] }), MONDAY)).toEqual([]);
+    expect(generateSlots(rules({ daysOff: [MONDAY] }), '2026-01-06')).not.toEqual([]);
+  });
+});
+
+describe('nearestFreeSlots', () => {
+  const oneSlotPerDay = rules({ weeklyHours: Array(7).fill({ start: '09:00', end: '09:30' }), breaks: [] });
+  const at = (day: string, slot: string) => slotToDate(DEFAULT_AVAILABILITY, day, slot);
+  const booked = [{ start: at(MONDAY, '10:00'), end: at(MONDAY, '10:30') }];
+  const isFree = (start: Date, end: Date) => !booked.some((b) => intervalsOverlap(start, end, b.start, b.end));
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  it('skips slots that overlap a booked appointment', () => {
+    const found = nearestFreeSlots(rules(), at(MONDAY, '09:30'), isFree, now, 2);
+    expect(found).toEqual([at(MONDAY, '09:00'), at(MONDAY, '10:30')]);
+  });
+
+  it('never offers the requested time itself or anything before now', () => {
+    const found = nearestFreeSlots(oneSlotPerDay, at(MONDAY, '09:00'), () => true, at('2026-01-04', '12:00'), 3);
+    expect(found).toEqual([at('2026-01-06', '09:00'), at('2026-01-07', '09:00'), at('2026-01-08', '09:00')]);
+  });
+
+  it('skips days off', () => {
+    const found = nearestFreeSlots(
+      { ...oneSlotPerDay, daysOff: ['2026-01-06'] },
+      at(MONDAY, '09:00'),
+      () => true,
+      at(MONDAY, '00:00'),
+      2
+    );
+    expect(found).toEqual([at('2026-01-07', '09:00'), at('2026-01-08', '09:00')]);
+  });
+});
+
+// The browser, the server and the doctor can each be in a different zone. Run this block somewhere that
+// is neither UTC nor the doctor's zone, so only the doctor's zone can decide when a slot starts.
+describe("in the doctor's time zone", () => {
+  const processZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'Asia/Karachi';
+  });
+
+  afterAll(() => {
+    process.env.TZ = processZone;
+  });
+
+  it('runs in a non-UTC zone', () => {
+    expect(new Date(2026, 0, 5).getTimezoneOffset()).toBe(-300);
+  });
+
+  it("starts slots on the doctor's clock, not the local one", () => {
+    const utc = rules({ timeZone: 'UTC' });
+    expect(slotToDate(utc, MONDAY, '09:00').toISOString()).toBe('2026-01-05T09:00:00.000Z');
+    expect(isOffered(utc, new Date('2026-01-05T09:00:00Z'))).toBe(true);
+    // 09:00 in Karachi, which a browser there would have offered before
+    expect(isOffered(utc, new Date('2026-01-05T04:00:00Z'))).toBe(false);
+  });
+
+  it("follows the doctor's daylight saving changes", () => {
+    const newYork = rules({ timeZone: 'America/New_York' });
+    expect(slotToDate(newYork, MONDAY, '09:00').toISOString()).toBe('2026-01-05T14:00:00.000Z');
+    expect(slotToDate(newYork, '2026-07-06', '09:00').toISOString()).toBe('2026-07-06T13:00:00.000Z');
+  });
+
+  it("uses the doctor's calendar day when it differs from the UTC one", () => {
+    const auckland = rules({ timeZone: 'Pacific/Auckland' });
+    // Monday 09:00 in Auckland is still Sunday in UTC and in Karachi
+    const start = new Date('2026-01-04T20:00:00Z');
+    expect(slotAt(auckland, start)).toEqual({ day: MONDAY, slot: '09:00' });
+    expect(isOffered(auckland, start)).toBe(true);
+    expect(generateSlots(auckland, '2026-01-04')).toEqual([]);
+  });
+
+  it('suggests alternatives the doctor actually offers', () => {
+    const newYork = rules({ timeZone: 'America/New_York' });
+    const found = nearestFreeSlots(newYork, slotToDate(newYork, MONDAY, '09:00'), () => true, new Date(0), 2);
+    expect(found.map((d) => d.toISOString())).toEqual(['2026-01-05T14:30:00.000Z', '2026-01-05T15:00:00.000Z']);
+    expect(found.every((d) => isOffered(newYork, d))).toBe(true);
+  });
+});
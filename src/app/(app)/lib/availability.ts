@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { fromZonedParts, isTimeZone, wallClock } from './timezones';
+
+// Pure slot generation from a doctor's availability rules. No I/O, no clock: callers pass the date.
+// Hours are read on the doctor's clock and days on the doctor's calendar, so the browser and the server
+// agree on every slot whatever zone each of them runs in. Days are 'yyyy-MM-dd' keys.
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const time = z.string().regex(timePattern, 'Use HH:mm');
+
+export const timeRangeSchema = z
+  .object({ start: time, end: time })
+  .refine((range) => toMinutes(range.start) < toMinutes(range.end), {
+    message: 'End time must be after start time',
+    path: ['end'],
+  });
+
+export const availabilitySchema = z.object({
+  // IANA zone the hours below are in, e.g. 'Europe/London'
+  timeZone: z.string().refine(isTimeZone, 'Unknown time zone').default('UTC'),
+  slotMinutes: z.number().int().min(5).max(240),
+  // Indexed by Date#getDay(): 0 = Sunday ... 6 = Saturday. null = not working that day.
+  weeklyHours: z.array(timeRangeSchema.nullable()).length(7),
+  // Applied every working day
+  breaks: z.array(timeRangeSchema),
+  // yyyy-MM-dd, local to the doctor
+  daysOff: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  // Whether a patient-moved appointment goes back for approval or keeps its status
+  rescheduleStatus: z.enum(['pending', 'keep']).default('pending'),
+  // Patients can't cancel online within this many hours of the appointment
+  cancellationWindowHours: z.number().int().min(0).max(168).default(24),
+});
+
+export type TimeRange = z.infer<typeof timeRangeSchema>;
+export type AvailabilityRules = z.infer<typeof availabilitySchema>;
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Weekdays 09:00-17:30 with a lunch break, in 30 minute slots
+export const DEFAULT_AVAILABILITY: AvailabilityRules = {
+  timeZone: 'UTC',
+  slotMinutes: 30,
+  weeklyHours: [
+    null,
+    { start: '09:00', end: '17:30' },
+    { start: '09:00', end: '17:30' },
+    { start: '09:00', end: '17:30' },
+    { start: '09:00', end: '17:30' },
+    { start: '09:00', end: '17:30' },
+    null,
+  ],
+  breaks: [{ start: '12:00', end: '14:00' }],
+  daysOff: [],
+  rescheduleStatus: 'pending',
+  cancellationWindowHours: 24,
+};
+
+export function toMinutes(value: string) {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function fromMinutes(total: number) {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function formatDateKey(year: number, monthIndex: number, day: number) {
+  return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseDateKey(key: string) {
+  const [year, month, day] = key.split('-').map(Number);
+  return { year, monthIndex: month - 1, day };
+}
+
+// The day `date` falls on: its local calendar day, or the one in `timeZone` when given
+export function toDateKey(date: Date, timeZone?: string) {
+  if (!timeZone) return formatDateKey(date.getFullYear(), date.getMonth(), date.getDate());
+  const { year, monthIndex, day } = wallClock(date, timeZone);
+  return formatDateKey(year, monthIndex, day);
+}
+
+// Local midnight of a day, for date pickers
+export function fromDateKey(key: string) {
+  const { year, monthIndex, day } = parseDateKey(key);
+  return new Date(year, monthIndex, day);
+}
+
+export function addDaysToKey(key: string, days: number) {
+  const { year, monthIndex, day } = parseDateKey(key);
+  const shifted = new Date(Date.UTC(year, monthIndex, day + days));
+  return formatDateKey(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate());
+}
+
+function weekdayOf(key: string) {
+  const { year, monthIndex, day } = parseDateKey(key);
+  return new Date(Date.UTC(year, monthIndex, day)).getUTCDay();
+}
+
+function overlaps(start: number, end: number, range: TimeRange) {
+  return start < toMinutes(range.end) && toMinutes(range.start) < end;
+}
+
+// Start times ('HH:mm') of every whole slot on `day` that fits inside working hours and clears all breaks
+export function generateSlots(rules: AvailabilityRules, day: string): string[] {
+  if (rules.daysOff.includes(day)) return [];
+
+  const hours = rules.weeklyHours[weekdayOf(day)];
+  if (!hours) return [];
+
+  const slots: string[] = [];
+  const end = toMinutes(hours.end);
+
+  for (let start = toMinutes(hours.start); start + rules.slotMinutes <= end; start += rules.slotMinutes) {
+    const slotEnd = start + rules.slotMinutes;
+    if (rules.breaks.some((b) => overlaps(start, slotEnd, b))) continue;
+    slots.push(fromMinutes(start));
+  }
+
+  return slots;
+}
+
+// When an 'HH:mm' slot on `day` starts
+export function slotToDate(rules: Pick<AvailabilityRules, 'timeZone'>, day: string, slot: string) {
+  const { year, monthIndex, day: date } = parseDateKey(day);
+  const minutes = toMinutes(slot);
+  return fromZonedParts(rules.timeZone, year, monthIndex, date, Math.floor(minutes / 60), minutes % 60);
+}
+
+// The doctor's day and 'HH:mm' clock reading at `instant`, seconds dropped
+export function slotAt(rules: Pick<AvailabilityRules, 'timeZone'>, instant: Date) {
+  const { year, monthIndex, day, hours, minutes } = wallClock(instant, rules.timeZone);
+  return { day: formatDateKey(year, monthIndex, day), slot: fromMinutes(hours * 60 + minutes) };
+}
+
+// Whether one of the doctor's slots starts exactly at `start`
+export function isOffered(rules: AvailabilityRules, start: Date) {
+  const { day, slot } = slotAt(rules, start);
+  return generateSlots(rules, day).includes(slot) && slotToDate(rules, day, slot).getTime() === start.getTime();
+}
+
+// The `count` free slots closest to `around`, looking up to `searchDays` either side of it and never before `now`
+export function nearestFreeSlots(
+  rules: AvailabilityRules,
+  around: Date,
+  isFree: (start: Date, end: Date) => boolean,
+  now: Date,
+  count = 3,
+  searchDays = 14
+): Date[] {
+  const candidates: Date[] = [];
+  const aroundDay = toDateKey(around, rules.timeZone);
+
+  for (let offset = -searchDays; offset <= searchDays; offset++) {
+    const day = addDaysToKey(aroundDay, offset);
+
+    for (const slot of generateSlots(rules, day)) {
+      const start = slotToDate(rules, day, slot);
+      const end = new Date(start.getTime() + rules.slotMinutes * 60_000);
+      if (start <= now || start.getTime() === around.getTime()) continue;
+      if (isFree(start, end)) candidates.push(start);
+    }
+  }
+
+  return candidates
+    .sort((a, b) => Math.abs(a.getTime() - around.getTime()) - Math.abs(b.getTime() - around.getTime()))
+    .slice(0, count)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
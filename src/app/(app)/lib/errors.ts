@@ -0,0 +1,79 @@
+// Per-field messages from the server, keyed by request payload field
+export type FieldErrors = Record<string, string>;
+
+// Every failed API call rejects with one of these
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly fields: FieldErrors;
+
+  constructor(message: string, status: number, code = 'UNKNOWN', fields: FieldErrors = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fields = fields;
+  }
+
+  get hasFieldErrors() {
+    return Object.keys(this.fields).length > 0;
+  }
+}
+
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'EMAIL_TAKEN'
+  | 'ROLE_MISMATCH'
+  | 'SESSION_EXPIRED'
+  | 'EMAIL_NOT_VERIFIED';
+
+const AUTH_ERROR_CODES: AuthErrorCode[] = [
+  'INVALID_CREDENTIALS',
+  'EMAIL_TAKEN',
+  'ROLE_MISMATCH',
+  'SESSION_EXPIRED',
+  'EMAIL_NOT_VERIFIED',
+];
+
+export function isAuthErrorCode(code: unknown): code is AuthErrorCode {
+  return AUTH_ERROR_CODES.includes(code as AuthErrorCode);
+}
+
+// Thrown when the server rejects a login or registration for a known reason, or the session can't be renewed
+export class AuthError extends ApiError {
+  declare readonly code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string, status: number, fields?: FieldErrors) {
+    super(message, status, code, fields);
+    this.name = 'AuthError';
+  }
+}
+
+// Thrown by appointmentsAPI.bookAppointment when the slot overlaps an existing appointment
+export class BookingConflictError extends ApiError {
+  readonly conflictWith: 'doctor' | 'patient';
+  readonly alternatives: string[]; // ISO strings of the closest free slots
+
+  constructor(message: string, conflictWith: 'doctor' | 'patient', alternatives: string[]) {
+    super(message, 409, 'SLOT_CONFLICT');
+    this.name = 'BookingConflictError';
+    this.conflictWith = conflictWith;
+    this.alternatives = alternatives;
+  }
+}
+
+// Thrown when too many verification codes were asked for; another can be requested after `retryAfter` seconds
+export class RateLimitError extends ApiError {
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message, 429, 'RATE_LIMITED');
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+
+  // When the next request may go out, as an ISO string
+  get retryAt() {
+    return new Date(Date.now() + this.retryAfter * 1000).toISOString();
+  }
+}
@@ -0,0 +1,16 @@
+// Server-sent events for the signed-in user. Shared by the client's subscription and the mock server.
+
+// EventSource can't send headers, so the stream takes the access token as `?token=`
+export const EVENTS_PATH = '/events';
+
+// An appointment was booked or changed. The payload is the appointment as the recipient sees it
+// from the API: a DoctorAppointment for the doctor, a PatientAppointment for the patient.
+export const APPOINTMENT_EVENT = 'appointment';
+
+// A new in-app notification for the recipient; the payload is an AppNotification
+export const NOTIFICATION_EVENT = 'notification';
+
+// Replaces the item with the same id, or adds it to the end
+export function upsertById<T extends { id: string }>(items: T[], item: T) {
+  return items.some((i) => i.id === item.id) ? items.map((i) => (i.id === item.id ? item : i)) : [...items, item];
+}
@@ -0,0 +1,22 @@
+// Reads a file as a base64 data URL, the form uploads travel in
+export function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("That file couldn't be read"));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Browsers refuse to open data URLs in a tab or frame, so hand the file over as a blob URL instead.
+// The caller revokes it with URL.revokeObjectURL when done.
+export async function toObjectUrl(dataUrl: string) {
+  const blob = await (await fetch(dataUrl)).blob();
+  return URL.createObjectURL(blob);
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
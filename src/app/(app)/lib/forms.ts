@@ -0,0 +1,22 @@
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { ApiError } from './errors';
+
+// Puts server field errors on the matching inputs. `rename` maps payload fields whose name differs
+// from the form's. Returns true if at least one message landed on a field.
+export function applyFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[],
+  rename: Partial<Record<string, Path<T>>> = {}
+) {
+  if (!(error instanceof ApiError)) return false;
+
+  let applied = false;
+  for (const [key, message] of Object.entries(error.fields)) {
+    const field = rename[key] ?? (key as Path<T>);
+    if (!fields.includes(field)) continue;
+    setError(field, { type: 'server', message }, { shouldFocus: !applied });
+    applied = true;
+  }
+  return applied;
+}
@@ -0,0 +1,112 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAuthStore, type User } from '../store/authStor';
+import { AuthError } from './errors';
+
+// The auth store persists itself, and Node has no localStorage
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+// A stub API: everything but the refresh endpoint only answers to the renewed token. Like the real one,
+// each refresh token works once.
+let refreshCalls = 0;
+let refreshWorks = true;
+let validRefresh = 'old-refresh';
+
+const server: Server = createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    const reply = (status: number, payload?: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(payload ? JSON.stringify(payload) : undefined);
+    };
+
+    if (req.url === '/auth/refresh') {
+      refreshCalls++;
+      const { refreshToken } = JSON.parse(body) as { refreshToken: string };
+      // Slow enough for every concurrent 401 to arrive while it's running
+      setTimeout(() => {
+        if (refreshWorks && refreshToken === validRefresh) {
+          validRefresh = 'new-refresh';
+          reply(200, { token: 'fresh', refreshToken: validRefresh });
+        } else {
+          reply(401, { code: 'SESSION_EXPIRED', message: 'Your session has expired' });
+        }
+      }, 50);
+      return;
+    }
+    if (req.headers.authorization !== 'Bearer fresh') return reply(401, { code: 'TOKEN_EXPIRED', message: 'Expired' });
+    reply(200, { path: req.url });
+  });
+});
+
+const user: User = { id: 'p1', email: 'patient@demo.com', name: 'Pat', role: 'patient', phone: '', avatar: '' };
+
+let http: typeof import('./http');
+const sessionExpired = vi.fn();
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  vi.stubEnv('VITE_API_BASE', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  // API_BASE is read when the client loads
+  http = await import('./http');
+  http.setSessionExpiredHandler(sessionExpired);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  refreshCalls = 0;
+  refreshWorks = true;
+  validRefresh = 'old-refresh';
+  sessionExpired.mockClear();
+  useAuthStore.getState().login(user, 'stale', 'old-refresh');
+});
+
+describe('request', () => {
+  it('renews an expired token and retries the request', async () => {
+    await expect(http.request('/me', { method: 'GET' }, 'Failed')).resolves.toEqual({ path: '/me' });
+    expect(refreshCalls).toBe(1);
+    expect(useAuthStore.getState()).toMatchObject({ token: 'fresh', refreshToken: 'new-refresh' });
+    expect(sessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('shares one refresh between concurrent 401s', async () => {
+    const results = await Promise.all(
+      ['/a', '/b', '/c'].map((path) => http.request(path, { method: 'GET' }, 'Failed'))
+    );
+    expect(results).toEqual([{ path: '/a' }, { path: '/b' }, { path: '/c' }]);
+    // A second refresh would have spent the rotated token and ended the session
+    expect(refreshCalls).toBe(1);
+    expect(sessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('ends the session when the refresh fails', async () => {
+    refreshWorks = false;
+    const attempts = ['/a', '/b'].map((path) => http.request(path, { method: 'GET' }, 'Failed'));
+
+    for (const attempt of attempts) await expect(attempt).rejects.toBeInstanceOf(AuthError);
+    expect(refreshCalls).toBe(1);
+    expect(sessionExpired).toHaveBeenCalled();
+    expect(useAuthStore.getState()).toMatchObject({ user: null, token: null, refreshToken: null });
+  });
+
+  it('leaves anonymous requests alone on a 401', async () => {
+    await expect(http.request('/me', { method: 'GET' }, 'Failed', { anonymous: true })).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(refreshCalls).toBe(0);
+    expect(sessionExpired).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import { API_BASE } from '../../../utils/constants';
+import { useAuthStore } from '../store/authStor';
+import { ApiError, AuthError, BookingConflictError, isAuthErrorCode, RateLimitError, type FieldErrors } from './errors';
+import { isTokenExpired } from './jwt';
+
+type ErrorBody = {
+  code?: string;
+  message?: string;
+  fields?: FieldErrors;
+  conflictWith?: 'doctor' | 'patient';
+  alternatives?: string[];
+  retryAfter?: number;
+} | null;
+
+export interface RequestOptions {
+  // Skip the bearer token and 401 handling (sign-in, registration, refresh itself)
+  anonymous?: boolean;
+}
+
+type TokenPair = { token: string; refreshToken: string };
+
+let refreshing: Promise<string> | null = null;
+
+let onSessionExpired = () => {
+  window.location.assign('/login');
+};
+
+// Lets the router take over the post-logout redirect instead of a full page load
+export function setSessionExpiredHandler(handler: () => void) {
+  onSessionExpired = handler;
+}
+
+async function send(path: string, init: RequestInit, token: string | null) {
+  try {
+    return await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers,
+      },
+    });
+  } catch {
+    throw new ApiError('Unable to reach the server. Check your connection and try again.', 0, 'NETWORK');
+  }
+}
+
+// One refresh at a time: concurrent 401s all wait on the same promise
+function refreshAccessToken(): Promise<string> {
+  refreshing ??= (async () => {
+    const { refreshToken, setTokens } = useAuthStore.getState();
+    if (!refreshToken) throw new AuthError('SESSION_EXPIRED', 'Your session has expired', 401);
+
+    const res = await send('/auth/refresh', { method: 'POST', body: JSON.stringify({ refreshToken }) }, null);
+    if (!res.ok) throw new AuthError('SESSION_EXPIRED', 'Your session has expired', res.status);
+
+    const pair = (await res.json()) as TokenPair;
+    setTokens(pair.token, pair.refreshToken);
+    return pair.token;
+  })().finally(() => {
+    refreshing = null;
+  });
+
+  return refreshing;
+}
+
+function endSession() {
+  useAuthStore.getState().logout();
+  onSessionExpired();
+}
+
+// The access token, renewed first if it has expired. For connections that can't go through `request`,
+// like the event stream. Ends the session if it can't be renewed.
+export async function freshAccessToken() {
+  const { token } = useAuthStore.getState();
+  if (token && !isTokenExpired(token)) return token;
+  try {
+    return await refreshAccessToken();
+  } catch (err) {
+    endSession();
+    throw err;
+  }
+}
+
+async function toError(res: Response, fallbackMessage: string) {
+  const error = (await res.json().catch(() => null)) as ErrorBody;
+  if (isAuthErrorCode(error?.code)) {
+    return new AuthError(error.code, error.message ?? fallbackMessage, res.status, error.fields);
+  }
+  if (error?.code === 'SLOT_CONFLICT') {
+    return new BookingConflictError(
+      error.message ?? fallbackMessage,
+      error.conflictWith ?? 'doctor',
+      error.alternatives ?? []
+    );
+  }
+  if (error?.code === 'RATE_LIMITED') {
+    return new RateLimitError(error.message ?? fallbackMessage, error.retryAfter ?? 60);
+  }
+  return new ApiError(error?.message ?? fallbackMessage, res.status, error?.code, error?.fields);
+}
+
+// JSON request against API_BASE. Sends the session token, renews it once on a 401 and ends the
+// session if that fails. Failures reject with ApiError, or its AuthError / BookingConflictError / RateLimitError
+// subclasses.
+export async function request<T>(
+  path: string,
+  init: RequestInit,
+  fallbackMessage: string,
+  options: RequestOptions = {}
+): Promise<T> {
+  const token = options.anonymous ? null : useAuthStore.getState().token;
+  let res = await send(path, init, token);
+
+  if (res.status === 401 && !options.anonymous) {
+    let fresh: string;
+    try {
+      // Someone else may already have renewed the token while this request was in flight
+      const current = useAuthStore.getState().token;
+      fresh = current && current !== token ? current : await refreshAccessToken();
+    } catch (err) {
+      endSession();
+      throw err instanceof AuthError ? err : new AuthError('SESSION_EXPIRED', 'Your session has expired', 401);
+    }
+
+    res = await send(path, init, fresh);
+    if (res.status === 401) {
+      endSession();
+      throw new AuthError('SESSION_EXPIRED', 'Your session has expired', 401);
+    }
+  }
+
+  if (!res.ok) throw await toError(res, fallbackMessage);
+
+  return (await res.json().catch(() => null)) as T;
+}
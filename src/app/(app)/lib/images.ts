@@ -0,0 +1,23 @@
+// Scales an image file down so its longer side is at most `maxSize` pixels and returns it as a JPEG
+// data URL. Smaller images are re-encoded at their own size.
+export async function resizeImage(file: File, maxSize = 512, quality = 0.85): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error('Please choose an image file');
+
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new Error("That image couldn't be read. Try a JPEG or PNG.");
+  });
+  const scale = Math.min(maxSize / Math.max(bitmap.width, bitmap.height), 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image resizing is not supported in this browser');
+  // JPEG has no transparency; fill it white rather than black
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return canvas.toDataURL('image/jpeg', quality);
+}
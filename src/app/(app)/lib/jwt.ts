@@ -0,0 +1,25 @@
+export interface TokenClaims {
+  sub?: string;
+  role?: string;
+  exp?: number; // seconds since epoch
+}
+
+// Reads the payload of a JWT without verifying it; the server still does that
+export function decodeToken(token: string): TokenClaims | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=')));
+  } catch {
+    return null;
+  }
+}
+
+// Malformed tokens count as expired; tokens without an `exp` claim never expire client-side
+export function isTokenExpired(token: string, now = Date.now()) {
+  const claims = decodeToken(token);
+  if (!claims) return true;
+  return claims.exp !== undefined && claims.exp * 1000 <= now;
+}
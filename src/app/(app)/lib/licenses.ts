@@ -0,0 +1,107 @@
+import { z } from 'zod';
+
+// Doctor license verification. New doctors stay out of the directory until an admin has checked their
+// license documents. Shared by the verification screens and the mock server.
+
+export const VERIFICATION_STATUSES = ['pending_verification', 'verified', 'rejected'] as const;
+
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  pending_verification: 'Pending review',
+  verified: 'Verified',
+  rejected: 'Rejected',
+};
+
+export const LICENSE_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png'] as const;
+
+export type LicenseFileType = (typeof LICENSE_FILE_TYPES)[number];
+
+export const MAX_LICENSE_FILE_BYTES = 2 * 1024 * 1024;
+
+export const MAX_LICENSE_DOCUMENTS = 5;
+
+// Uploads travel as base64 data URLs, a third larger than the file plus the `data:` header
+const MAX_DATA_URL_LENGTH = Math.ceil(MAX_LICENSE_FILE_BYTES / 3) * 4 + 64;
+
+export const licenseUploadSchema = z
+  .object({
+    name: z.string().trim().min(1, 'The file needs a name').max(120, 'Keep the file name under 120 characters'),
+    type: z.enum(LICENSE_FILE_TYPES, { errorMap: () => ({ message: 'Upload a PDF, JPEG or PNG file' }) }),
+    dataUrl: z.string().max(MAX_DATA_URL_LENGTH, 'Files can be at most 2 MB'),
+  })
+  .refine((upload) => upload.dataUrl.startsWith(`data:${upload.type};base64,`), {
+    message: "The file doesn't match its type",
+    path: ['dataUrl'],
+  });
+
+export type LicenseUpload = z.infer<typeof licenseUploadSchema>;
+
+// Without the file itself, which is fetched on its own when someone opens it
+export interface LicenseDocument {
+  id: string;
+  name: string;
+  type: LicenseFileType;
+  size: number; // bytes
+  uploadedAt: string; // ISO string
+}
+
+export type LicenseFile = LicenseDocument & { dataUrl: string };
+
+// The latest admin decision. A rejected doctor who uploads again goes back to pending, but keeps
+// the rejection so they can see what to fix.
+export interface LicenseReview {
+  decision: 'approved' | 'rejected';
+  reason?: string;
+  reviewedAt: string; // ISO string
+}
+
+export interface DoctorVerification {
+  status: VerificationStatus;
+  licenseNumber: string;
+  documents: LicenseDocument[];
+  review: LicenseReview | null;
+}
+
+// One doctor in the admin review queue
+export interface VerificationRequest extends DoctorVerification {
+  doctorId: string;
+  name: string;
+  email: string;
+  specialization: string;
+}
+
+export const rejectionSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(10, 'Tell the doctor what needs fixing (at least 10 characters)')
+    .max(500, 'Keep the reason under 500 characters'),
+});
+
+export type Rejection = z.infer<typeof rejectionSchema>;
+
+export const reviewDecisionSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approved') }),
+  rejectionSchema.extend({ decision: z.literal('rejected') }),
+]);
+
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>;
+
+// Documents can change until the license is approved
+export function canEditDocuments(status: VerificationStatus) {
+  return status !== 'verified';
+}
+
+export function getVerificationStatusColor(status: VerificationStatus) {
+  switch (status) {
+    case 'verified':
+      return 'bg-success text-success-foreground';
+    case 'pending_verification':
+      return 'bg-warning text-warning-foreground';
+    case 'rejected':
+      return 'bg-destructive text-destructive-foreground';
+    default:
+      return 'bg-muted text-muted-foreground';
+  }
+}
@@ -0,0 +1,41 @@
+// In-app notifications shown under the Navbar bell. Shared by the client and the mock server.
+
+export type AppointmentNotificationKind = 'booked' | 'confirmed' | 'completed' | 'cancelled' | 'rescheduled';
+
+// License decisions go to the doctor and have no appointment
+export type NotificationKind = AppointmentNotificationKind | 'license_approved' | 'license_rejected';
+
+export function isLicenseNotification(notification: Pick<AppNotification, 'kind'>) {
+  return notification.kind === 'license_approved' || notification.kind === 'license_rejected';
+}
+
+// Named to stay clear of the DOM's Notification
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  appointmentId?: string;
+  createdAt: string; // ISO string
+  readAt: string | null; // ISO string
+}
+
+// Newest first, with the unread count across all of them
+export interface NotificationFeed {
+  items: AppNotification[];
+  unread: number;
+}
+
+// Marks one notification read in a feed; leaves the feed alone if it already was
+export function markFeedRead(feed: NotificationFeed, id: string, at: string): NotificationFeed {
+  const target = feed.items.find((n) => n.id === id);
+  if (!target || target.readAt) return feed;
+  return {
+    items: feed.items.map((n) => (n.id === id ? { ...n, readAt: at } : n)),
+    unread: Math.max(feed.unread - 1, 0),
+  };
+}
+
+export function markFeedAllRead(feed: NotificationFeed, at: string): NotificationFeed {
+  return { items: feed.items.map((n) => (n.readAt ? n : { ...n, readAt: at })), unread: 0 };
+}
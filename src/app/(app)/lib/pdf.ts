@@ -0,0 +1,157 @@
+// Minimal text-only PDF writer: Helvetica on A4, word-wrapped, new pages as needed. No dependencies.
+
+export interface PdfLine {
+  text: string;
+  size?: number; // points, default 11
+  bold?: boolean;
+  gap?: number; // extra space above the line, in points
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const LINE_HEIGHT = 1.4;
+// Helvetica averages about half an em per character; close enough for wrapping
+const CHAR_WIDTH = 0.5;
+
+const REPLACEMENTS: Record<string, string> = {
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '•': '-',
+  '…': '...',
+};
+
+// PDF string literal in WinAnsi: escape delimiters, octal-escape Latin-1, replace anything else
+function pdfString(text: string) {
+  let result = '';
+  for (const char of text) {
+    const mapped = REPLACEMENTS[char] ?? char;
+    for (const c of mapped) {
+      const code = c.charCodeAt(0);
+      if (c === '\\' || c === '(' || c === ')') result += `\\${c}`;
+      else if (code >= 32 && code < 127) result += c;
+      else if (code >= 160 && code <= 255) result += `\\${code.toString(8).padStart(3, '0')}`;
+      else result += '?';
+    }
+  }
+  return `(${result})`;
+}
+
+function wrap(text: string, size: number) {
+  const maxChars = Math.max(Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * CHAR_WIDTH)), 10);
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/)) {
+      if (!word) continue;
+      if (current && current.length + word.length + 1 > maxChars) {
+        lines.push(current);
+        current = '';
+      }
+      // Break words that are longer than a whole line
+      let rest = word;
+      while (rest.length > maxChars) {
+        if (current) lines.push(current);
+        lines.push(rest.slice(0, maxChars));
+        current = '';
+        rest = rest.slice(maxChars);
+      }
+      current = current ? `${current} ${rest}` : rest;
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+// Lays the lines out into one content stream per page
+function layout(lines: PdfLine[]) {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const { text, size = 11, bold = false, gap = 0 } of lines) {
+    y -= gap;
+    for (const row of wrap(text, size)) {
+      const height = size * LINE_HEIGHT;
+      if (y - height < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= height;
+      pages[pages.length - 1].push(
+        `BT /${bold ? 'F2' : 'F1'} ${size} Tf 1 0 0 1 ${MARGIN} ${y.toFixed(2)} Tm ${pdfString(row)} Tj ET`
+      );
+    }
+  }
+  return pages.map((commands) => commands.join('\n'));
+}
+
+export function createPdf(lines: PdfLine[], title: string): Blob {
+  const streams = layout(lines);
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const pageIds = streams.map((_, i) => 6 + i * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title ${pdfString(title)} /Producer (MediCare) >>`,
+  ];
+  streams.forEach((stream, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Everything above is ASCII, so string length equals byte length for the xref offsets
+  let body = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = body.length;
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  return new Blob([body], { type: 'application/pdf' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Same lines as the PDF, opened in a bare window and sent to the printer
+export function printLines(lines: PdfLine[], title: string) {
+  const win = window.open('', '_blank', 'width=800,height=900');
+  if (!win) return false;
+  const body = lines
+    .map(
+      ({ text, size = 11, bold = false, gap = 0 }) =>
+        `<p style="font-size:${size}pt;font-weight:${bold ? 700 : 400};margin:${gap}pt 0 0;white-space:pre-wrap">${escapeHtml(text)}</p>`
+    )
+    .join('');
+  win.document.write(
+    `<!doctype html><html><head><title>${escapeHtml(title)}</title></head>` +
+      `<body style="font-family:Helvetica,Arial,sans-serif;margin:56pt;line-height:1.4">${body}</body></html>`
+  );
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
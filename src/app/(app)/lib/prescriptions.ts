@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import type { Appointment } from './appointments';
+import type { PdfLine } from './pdf';
+
+// Prescriptions written on completed appointments. Shared by the prescription form, the patient's view and the mock server.
+
+export const medicationSchema = z.object({
+  name: z.string().trim().min(1, 'Medication name is required').max(120),
+  dosage: z.string().trim().min(1, 'Dosage is required').max(60),
+  frequency: z.string().trim().min(1, 'Frequency is required').max(60),
+  duration: z.string().trim().min(1, 'Duration is required').max(60),
+  instructions: z.string().trim().max(300),
+});
+
+export const prescriptionSchema = z.object({
+  medications: z.array(medicationSchema).min(1, 'Add at least one medication').max(20),
+  // General advice that applies to the whole prescription
+  instructions: z.string().trim().max(1000),
+});
+
+export type Medication = z.infer<typeof medicationSchema>;
+export type PrescriptionInput = z.infer<typeof prescriptionSchema>;
+
+export type Prescription = PrescriptionInput & {
+  issuedAt: string; // ISO string
+  updatedAt: string; // ISO string
+};
+
+export const EMPTY_MEDICATION: Medication = { name: '', dosage: '', frequency: '', duration: '', instructions: '' };
+
+export function canPrescribe(appointment: Pick<Appointment, 'status'>) {
+  return appointment.status === 'completed';
+}
+
+type PrescriptionDocument = Pick<Appointment, 'date' | 'doctorName' | 'patientName'> & {
+  doctorSpecialization?: string;
+  prescription: Prescription;
+};
+
+// The printed prescription, line by line; drives both the PDF and the print view
+export function prescriptionLines({
+  date,
+  doctorName,
+  doctorSpecialization,
+  patientName,
+  prescription,
+}: PrescriptionDocument): PdfLine[] {
+  const lines: PdfLine[] = [
+    { text: 'Prescription', size: 20, bold: true },
+    { text: `${doctorName}${doctorSpecialization ? `, ${doctorSpecialization}` : ''}`, size: 12, gap: 6 },
+    { text: `Patient: ${patientName}`, size: 11, gap: 14 },
+    { text: `Visit: ${format(new Date(date), 'MMMM d, yyyy')}`, size: 11 },
+    { text: `Issued: ${format(new Date(prescription.issuedAt), 'MMMM d, yyyy')}`, size: 11 },
+  ];
+
+  prescription.medications.forEach((medication, i) => {
+    lines.push(
+      { text: `${i + 1}. ${medication.name} (${medication.dosage})`, size: 12, bold: true, gap: 14 },
+      { text: `${medication.frequency} for ${medication.duration}`, size: 11 }
+    );
+    if (medication.instructions) lines.push({ text: medication.instructions, size: 10 });
+  });
+
+  if (prescription.instructions) {
+    lines.push(
+      { text: 'Instructions', size: 12, bold: true, gap: 16 },
+      { text: prescription.instructions, size: 11 }
+    );
+  }
+  return lines;
+}
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+// Profile details users fill in themselves. Shared by the profile forms and the mock server.
+
+// Resized photos are stored as data URLs; this caps one at roughly 300 KB
+export const MAX_PHOTO_LENGTH = 400_000;
+
+const photoUrlSchema = z
+  .string()
+  .max(MAX_PHOTO_LENGTH, 'Photo is too large')
+  .refine((url) => !url || url.startsWith('data:image/') || /^https?:\/\//.test(url), 'Photo must be an image');
+
+export const doctorProfileSchema = z.object({
+  specialization: z.string().trim().min(1, 'Please select a specialization').max(80),
+  bio: z.string().trim().max(1000, 'Keep your bio under 1000 characters'),
+  qualifications: z.array(z.string().trim().min(1).max(120)).max(10, 'List at most 10 qualifications'),
+  experience: z.number().int().min(0, 'Experience cannot be negative').max(70),
+  consultationFee: z.number().min(0, 'Fee cannot be negative').max(10000),
+  languages: z.array(z.string().trim().min(1).max(40)).max(10, 'List at most 10 languages'),
+  clinicAddress: z.string().trim().max(300),
+  photo_url: photoUrlSchema,
+});
+
+export type DoctorProfile = z.infer<typeof doctorProfileSchema>;
+
+// Patient profile, one schema per section of the intake form
+
+export const GENDERS = ['female', 'male', 'other', 'undisclosed'] as const;
+
+export const GENDER_LABELS: Record<(typeof GENDERS)[number], string> = {
+  female: 'Female',
+  male: 'Male',
+  other: 'Other',
+  undisclosed: 'Prefer not to say',
+};
+
+export const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-', 'unknown'] as const;
+
+export const personalDetailsSchema = z.object({
+  // yyyy-MM-dd, or empty if not given
+  dateOfBirth: z
+    .string()
+    .refine((value) => !value || /^\d{4}-\d{2}-\d{2}$/.test(value), 'Enter a valid date')
+    .refine((value) => !value || new Date(value).getTime() <= Date.now(), 'Date of birth cannot be in the future'),
+  gender: z.enum(GENDERS),
+  bloodType: z.enum(BLOOD_TYPES),
+});
+
+const listItem = z.string().trim().min(1).max(120, 'Keep each entry under 120 characters');
+
+export const allergiesSchema = z.array(listItem).max(30, 'List at most 30 allergies');
+
+export const chronicConditionsSchema = z.array(listItem).max(30, 'List at most 30 conditions');
+
+export const currentMedicationsSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1, 'Medication name is required').max(120),
+      dosage: z.string().trim().max(120),
+    })
+  )
+  .max(30, 'List at most 30 medications');
+
+export const emergencyContactSchema = z
+  .object({
+    name: z.string().trim().max(120),
+    relationship: z.string().trim().max(60),
+    phone: z
+      .string()
+      .trim()
+      .refine((value) => !value || /^[+\d\s().-]{7,20}$/.test(value), 'Enter a valid phone number'),
+  })
+  // All optional, but a contact is no use without both a name and a number
+  .superRefine((contact, ctx) => {
+    if (!contact.name && !contact.relationship && !contact.phone) return;
+    if (!contact.name) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['name'], message: 'Contact name is required' });
+    if (!contact.phone) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['phone'], message: 'Contact phone is required' });
+  });
+
+export const patientProfileSchema = z.object({
+  personal: personalDetailsSchema,
+  allergies: allergiesSchema,
+  conditions: chronicConditionsSchema,
+  medications: currentMedicationsSchema,
+  emergencyContact: emergencyContactSchema,
+});
+
+export type PatientProfile = z.infer<typeof patientProfileSchema>;
+
+export const EMPTY_PATIENT_PROFILE: PatientProfile = {
+  personal: { dateOfBirth: '', gender: 'undisclosed', bloodType: 'unknown' },
+  allergies: [],
+  conditions: [],
+  medications: [],
+  emergencyContact: { name: '', relationship: '', phone: '' },
+};
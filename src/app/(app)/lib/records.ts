@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import type { DoctorAppointment } from './appointments';
+import type { User } from '../store/authStor';
+
+// What a doctor writes down about a visit. Shared by the visit form and the mock server.
+
+export const visitRecordSchema = z.object({
+  visitNotes: z.string().trim().max(5000, 'Keep visit notes under 5000 characters'),
+  diagnosis: z.string().trim().max(200, 'Keep the diagnosis under 200 characters'),
+  followUp: z.string().trim().max(2000, 'Keep follow-up instructions under 2000 characters'),
+});
+
+export type VisitRecordInput = z.infer<typeof visitRecordSchema>;
+
+export type VisitRecord = VisitRecordInput & { updatedAt: string }; // ISO string
+
+export const EMPTY_VISIT_RECORD: VisitRecordInput = { visitNotes: '', diagnosis: '', followUp: '' };
+
+// Everything a doctor has on one patient: who they are and every appointment with this doctor
+export interface PatientHistory {
+  patient: Pick<User, 'id' | 'name' | 'email' | 'phone' | 'avatar'>;
+  appointments: DoctorAppointment[];
+}
+
+// Notes can be taken during the visit and corrected afterwards, but not before it's confirmed
+export function canRecordVisit(appointment: Pick<DoctorAppointment, 'status'>) {
+  return appointment.status === 'confirmed' || appointment.status === 'completed';
+}
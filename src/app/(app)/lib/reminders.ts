@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import type { Appointment } from './appointments';
+
+// Email and SMS reminders for patients. Shared by the reminder settings and the mock server's scheduler.
+
+export type ReminderChannel = 'email' | 'sms';
+
+export const reminderPreferencesSchema = z.object({
+  email: z.boolean(),
+  sms: z.boolean(),
+});
+
+export type ReminderPreferences = z.infer<typeof reminderPreferencesSchema>;
+
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = { email: true, sms: false };
+
+// `confirmation` goes out on booking; the others ahead of the appointment
+export type ReminderKind = 'confirmation' | 'day_before' | 'hour_before';
+
+const HOUR = 60 * 60 * 1000;
+
+// Closest first, so a late booking only gets the reminder that still makes sense
+const SCHEDULE: { kind: ReminderKind; before: number }[] = [
+  { kind: 'hour_before', before: HOUR },
+  { kind: 'day_before', before: 24 * HOUR },
+];
+
+// The reminder whose window `now` falls in, if any. Once the hour-before window opens the
+// day-before reminder is no longer due, so a missed one is skipped rather than sent late.
+export function dueReminder(appointment: Pick<Appointment, 'date'>, now: Date): ReminderKind | null {
+  const start = new Date(appointment.date).getTime();
+  if (now.getTime() >= start) return null;
+  return SCHEDULE.find(({ before }) => now.getTime() >= start - before)?.kind ?? null;
+}
+
+export function activeChannels(preferences: ReminderPreferences, phone?: string): ReminderChannel[] {
+  const channels: ReminderChannel[] = [];
+  if (preferences.email) channels.push('email');
+  // SMS needs a number to send to
+  if (preferences.sms && phone?.trim()) channels.push('sms');
+  return channels;
+}
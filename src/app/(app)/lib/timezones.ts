@@ -0,0 +1,103 @@
+import { format } from 'date-fns';
+
+// Wall-clock conversions for IANA time zones, built on Intl so nothing extra ships to the browser.
+// Shared by the booking screens and the mock server, which may run in different zones from the doctor.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isTimeZone(value: string) {
+  try {
+    formatterFor(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The zone this browser (or server process) is in
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export interface WallClock {
+  year: number;
+  monthIndex: number; // 0 = January
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+// What clocks in `timeZone` read at `instant`
+export function wallClock(instant: Date, timeZone: string): WallClock {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    monthIndex: parts.month - 1,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+  };
+}
+
+// How far `timeZone` is ahead of UTC at `instant`, in milliseconds
+function offsetMs(instant: Date, timeZone: string) {
+  const { year, monthIndex, day, hours, minutes, seconds } = wallClock(instant, timeZone);
+  const wholeSeconds = instant.getTime() - instant.getUTCMilliseconds();
+  return Date.UTC(year, monthIndex, day, hours, minutes, seconds) - wholeSeconds;
+}
+
+// A Date whose local fields read what clocks in `timeZone` show at `instant`. Only for display
+// (date-fns `format`); never store or send it.
+export function toZonedTime(instant: Date, timeZone: string) {
+  const { year, monthIndex, day, hours, minutes, seconds } = wallClock(instant, timeZone);
+  return new Date(year, monthIndex, day, hours, minutes, seconds, instant.getUTCMilliseconds());
+}
+
+// `pattern` as clocks in `timeZone` read at `instant`, followed by the zone's short name (e.g. "9:00 AM EST"),
+// for text that leaves the app and can't be shown in the reader's own zone
+export function formatInTimeZone(instant: Date, timeZone: string, pattern: string) {
+  const zoneName = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(instant)
+    .find((part) => part.type === 'timeZoneName')?.value;
+  return `${format(toZonedTime(instant, timeZone), pattern)} ${zoneName ?? timeZone}`;
+}
+
+// The instant at which clocks in `timeZone` read the given date and time. A time that a DST change skips
+// doesn't exist there; it comes out an hour early.
+export function fromZonedParts(
+  timeZone: string,
+  year: number,
+  monthIndex: number,
+  day: number,
+  hours = 0,
+  minutes = 0
+) {
+  const asUtc = Date.UTC(year, monthIndex, day, hours, minutes);
+  const first = asUtc - offsetMs(new Date(asUtc), timeZone);
+  // The offset may differ on the other side of a DST change
+  return new Date(asUtc - offsetMs(new Date(first), timeZone));
+}
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { CodeInput } from '../components/auth/CodeInput';
+import { ResendCodeButton } from '../components/auth/ResendCodeButton';
+import { useToast } from '../hooks/use-toast';
+import {
+  CODE_LENGTH,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  type PasswordReset,
+  type PasswordResetRequest,
+  type PendingVerification,
+} from '../lib/account';
+import { authAPI } from '../lib/api';
+import { RateLimitError } from '../lib/errors';
+import { applyFieldErrors } from '../lib/forms';
+import { Eye, EyeOff, KeyRound, Loader2 } from 'lucide-react';
+
+const resetFormSchema = passwordResetSchema
+  .omit({ email: true })
+  .extend({ confirmPassword: z.string() })
+  .refine((values) => values.newPassword === values.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+type ResetForm = z.infer<typeof resetFormSchema>;
+
+// Step one asks for the address, step two takes the emailed code and the new password
+export default function ForgotPassword() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [pending, setPending] = useState<PendingVerification | null>(null);
+  const [showPassword, setShowPassword] = useState(false);
+
+  const emailForm = useForm<PasswordResetRequest>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: { email: '' },
+  });
+
+  const resetForm = useForm<ResetForm>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: { code: '', newPassword: '', confirmPassword: '' },
+  });
+
+  const requestMutation = useMutation<PendingVerification, Error, string>({
+    mutationFn: (email) => authAPI.requestPasswordReset(email),
+    onSuccess: (sent) => {
+      setPending(sent);
+      toast({ title: 'Check your inbox', description: `If ${sent.sentTo} has an account, a code is on its way.` });
+    },
+    onError: (err) => {
+      if (err instanceof RateLimitError) {
+        setPending((current) => current && { ...current, resendAt: err.retryAt });
+      } else if (applyFieldErrors(err, emailForm.setError, ['email'])) {
+        return;
+      }
+      toast({ title: 'Code not sent', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  const resetMutation = useMutation<null, Error, PasswordReset>({
+    mutationFn: (data) => authAPI.resetPassword(data),
+    onSuccess: () => {
+      toast({ title: 'Password reset', description: 'Sign in with your new password.' });
+      navigate('/login', { replace: true });
+    },
+    onError: (err) => {
+      if (applyFieldErrors(err, resetForm.setError, ['code', 'newPassword'])) {
+        resetForm.setValue('code', '');
+        return;
+      }
+      toast({ title: 'Password not reset', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  const emailErrors = emailForm.formState.errors;
+  const resetErrors = resetForm.formState.errors;
+
+  return (
+    <div className="min-h-screen bg-[url('/images/hero.webp')] bg-cover bg-center flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-8">
+        <div className="text-center text-white">
+          <div className="flex justify-center mb-4">
+            <div className="bg-white/20 backdrop-blur-sm p-3 rounded-full">
+              <KeyRound className="w-8 h-8" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold">Forgot your password?</h1>
+          <p className="text-white/80 mt-2">We'll email you a code to choose a new one</p>
+        </div>
+
+        <Card className="bg-white/95 backdrop-blur-sm shadow-lg border-0">
+          <CardHeader className="space-y-1 text-center">
+            <CardTitle className="text-2xl font-bold">Reset password</CardTitle>
+            <CardDescription>
+              {pending ? (
+                <>
+                  Enter the {CODE_LENGTH}-digit code sent to{' '}
+                  <span className="font-medium text-foreground">{pending.sentTo}</span> and choose a new password
+                </>
+              ) : (
+                'Enter the email address you sign in with'
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {pending ? (
+              <form
+                onSubmit={resetForm.handleSubmit(({ code, newPassword }) =>
+                  resetMutation.mutate({ email: pending.sentTo, code, newPassword })
+                )}
+                className="space-y-4"
+              >
+                <div className="flex flex-col items-center space-y-2">
+                  <Controller
+                    control={resetForm.control}
+                    name="code"
+                    render={({ field }) => (
+                      <CodeInput
+                        value={field.value}
+                        onChange={field.onChange}
+                        disabled={resetMutation.isPending}
+                        invalid={Boolean(resetErrors.code)}
+                      />
+                    )}
+                  />
+                  {resetErrors.code && <p className="text-red-500 text-sm">{resetErrors.code.message}</p>}
+                  <p className="text-sm text-muted-foreground">
+                    Didn't get it?{' '}
+                    <ResendCodeButton
+                      resendAt={pending.resendAt}
+                      isPending={requestMutation.isPending}
+                      onResend={() => requestMutation.mutate(pending.sentTo)}
+                    />
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">New password</Label>
+                  <div className="relative">
+                    <Input
+                      id="newPassword"
+                      {...resetForm.register('newPassword')}
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      className="pr-10"
+                    />
+                    <Button type="button" variant="ghost" size="sm" className="absolute right-0 top-0 h-full px-3 py-2" onClick={() => setShowPassword(!showPassword)}>
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  {resetErrors.newPassword && <p className="text-red-500 text-sm">{resetErrors.newPassword.message}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirm new password</Label>
+                  <Input
+                    id="confirmPassword"
+                    {...resetForm.register('confirmPassword')}
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="new-password"
+                  />
+                  {resetErrors.confirmPassword && (
+                    <p className="text-red-500 text-sm">{resetErrors.confirmPassword.message}</p>
+                  )}
+                </div>
+
+                <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+                  {resetMutation.isPending ? <><Loader2 className="animate-spin mr-2 h-4 w-4" />Saving...</> : 'Reset password'}
+                </Button>
+                <Button type="button" variant="ghost" className="w-full" onClick={() => setPending(null)}>
+                  Use a different email
+                </Button>
+              </form>
+            ) : (
+              <form onSubmit={emailForm.handleSubmit(({ email }) => requestMutation.mutate(email))} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" {...emailForm.register('email')} type="email" placeholder="Enter email" />
+                  {emailErrors.email && <p className="text-red-500 text-sm">{emailErrors.email.message}</p>}
+                </div>
+                <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+                  {requestMutation.isPending ? <><Loader2 className="animate-spin mr-2 h-4 w-4" />Sending...</> : 'Send reset code'}
+                </Button>
+              </form>
+            )}
+
+            <div className="text-center mt-4 text-sm">
+              Remembered it? <Link to="/login" className="text-blue-600 hover:underline font-medium">Back to sign in</Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import React from "react";
 import { Navigate } from "react-router-dom";
 import { useAuthStore } from "../store/authStor";
-import { Navbar } from "../components/layout/Navbar";
 import { Users, CalendarCheck, Heart } from "lucide-react";
 import Footer from "../components/layout/Footer";
 
@@ -11,11 +10,10 @@ export default function Index() {
   // Redirect logged-in users to their dashboard
   if (user?.role === "patient") return <Navigate to="/patient/dashboard" replace />;
   if (user?.role === "doctor") return <Navigate to="/doctor/dashboard" replace />;
+  if (user?.role === "admin") return <Navigate to="/admin/dashboard" replace />;
 
   return (
     <div className="flex flex-col min-h-screen bg-gradient-to-b from-indigo-50 to-white">
-      <Navbar />
-
       {/* Hero Section */}
       <section className="flex flex-col-reverse lg:flex-row items-center justify-between max-w-7xl mx-auto px-6 lg:px-8 py-20 gap-12">
         <div className="flex-1 text-center lg:text-left space-y-6">
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate, type Location } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -11,13 +11,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { useToast } from '../hooks/use-toast';
 import { authAPI } from '../lib/api';
+import { AuthError } from '../lib/errors';
+import { applyFieldErrors } from '../lib/forms';
 import { useAuthStore } from '../store/authStor';
 import { Heart, Loader2, Eye, EyeOff } from 'lucide-react';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
-  role: z.enum(['patient', 'doctor'], { required_error: 'Please select a role' }),
+  role: z.enum(['patient', 'doctor', 'admin'], { required_error: 'Please select a role' }),
 });
 
 type LoginForm = z.infer<typeof loginSchema>;
@@ -26,21 +28,31 @@ export default function Login() {
   const [role, setRole] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const navigate = useNavigate();
+  // Where ProtectedRoute sent us from, if anywhere
+  const from = (useLocation().state as { from?: Location } | null)?.from;
   const { toast } = useToast();
   const { login } = useAuthStore();
 
-  const { register, handleSubmit, setValue, formState: { errors } } = useForm<LoginForm>({
+  const { register, handleSubmit, setValue, setError, formState: { errors } } = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
   });
 
   const mutation = useMutation({
-    mutationFn: (data: LoginForm) => authAPI.login(data.email,data.password,data.role),
+    mutationFn: (data: LoginForm) => authAPI.login(data),
     onSuccess: (res) => {
-      login(res.user, res.token);
+      login(res.user, res.token, res.refreshToken);
       toast({ title: 'Welcome back!', description: 'Successfully logged in.' });
-      navigate(res.user.role === 'patient' ? '/patient/dashboard' : '/doctor/dashboard');
+      const home = `/${res.user.role}/dashboard`;
+      const back = from && from.pathname.startsWith(`/${res.user.role}/`) ? from : null;
+      navigate(back ? `${back.pathname}${back.search}${back.hash}` : home, { replace: true });
     },
-    onError: (err: any) => {
+    onError: (err: Error, data) => {
+      if (err instanceof AuthError && err.code === 'EMAIL_NOT_VERIFIED') {
+        toast({ title: 'Verify your email', description: err.message });
+        navigate('/verify-email', { state: { email: data.email } });
+        return;
+      }
+      if (applyFieldErrors(err, setError, ['email', 'password', 'role'])) return;
       toast({ title: 'Login Failed', description: err.message, variant: 'destructive' });
     },
   });
@@ -69,11 +81,12 @@ export default function Login() {
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="role">I am a</Label>
-                <Select value={role} onValueChange={(val) => { setRole(val); setValue('role', val as 'patient' | 'doctor'); }}>
+                <Select value={role} onValueChange={(val) => { setRole(val); setValue('role', val as LoginForm['role']); }}>
                   <SelectTrigger><SelectValue placeholder="Select your role" /></SelectTrigger>
                   <SelectContent>
                     <SelectItem value="patient">Patient</SelectItem>
                     <SelectItem value="doctor">Doctor</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
                   </SelectContent>
                 </Select>
                 {errors.role && <p className="text-red-500 text-sm">{errors.role.message}</p>}
@@ -86,7 +99,10 @@ export default function Login() {
               </div>
 
               <div className="space-y-2">
-                <Label>Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label>Password</Label>
+                  <Link to="/forgot-password" className="text-sm text-blue-600 hover:underline">Forgot password?</Link>
+                </div>
                 <div className="relative">
                   <Input {...register('password')} type={showPassword ? 'text' : 'password'} placeholder="Enter password" className="pr-10" />
                   <Button type="button" variant="ghost" size="sm" className="absolute right-0 top-0 h-full px-3 py-2" onClick={() => setShowPassword(!showPassword)}>
@@ -105,6 +121,7 @@ export default function Login() {
               <p className="font-medium mb-2">Demo Credentials:</p>
               <p><strong>Patient:</strong> patient@demo.com / password123</p>
               <p><strong>Doctor:</strong> doctor@demo.com / password123</p>
+              <p><strong>Admin:</strong> admin@demo.com / password123</p>
             </div>
 
             <div className="text-center mt-4 text-sm">
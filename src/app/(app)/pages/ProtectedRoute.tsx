@@ -1,25 +1,48 @@
-import { Navigate } from "react-router-dom";
+import { useEffect } from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuthHydrated, useAuthStore, type User } from "../store/authStor";
+import { isTokenExpired } from "../lib/jwt";
+import { PageLoader } from "../components/layout/PageLoader";
 
 interface ProtectedRouteProps {
-  requiredRole: "patient" | "doctor";
-  children: React.ReactNode;
+  requiredRole: User["role"];
+  children?: React.ReactNode;
 }
 
+// Guards a single element, or a whole role section when used as a layout route
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   requiredRole,
   children,
 }) => {
-  const user = JSON.parse(localStorage.getItem("user") || "null");
+  const hydrated = useAuthHydrated();
+  const { user, token, refreshToken, logout } = useAuthStore();
+  const location = useLocation();
+  const queryClient = useQueryClient();
 
-  if (!user) {
-    return <Navigate to="/login" replace />;
+  // An expired access token is fine while there's a refresh token; the HTTP client renews it
+  const expired = Boolean(token) && isTokenExpired(token!) && !refreshToken;
+
+  useEffect(() => {
+    if (!hydrated || !expired) return;
+    logout();
+    queryClient.clear();
+  }, [hydrated, expired, logout, queryClient]);
+
+  // Don't decide until the persisted session is back, or a refresh would bounce to /login
+  if (!hydrated) {
+    return <PageLoader />;
+  }
+
+  if (!user || !token || expired) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
   if (user.role !== requiredRole) {
     return <Navigate to="/" replace />;
   }
 
-  return <>{children}</>;
+  return <>{children ?? <Outlet />}</>;
 };
 
 export default ProtectedRoute;
@@ -3,7 +3,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation } from '@tanstack/react-query';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
@@ -11,8 +11,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { useToast } from '../hooks/use-toast';
-import { authAPI,  specializations } from '../lib/api';
-import { useAuthStore } from '../store/authStor';
+import { authAPI, specializations } from '../lib/api';
+import { applyFieldErrors } from '../lib/forms';
+import type { VerifyEmailState } from './VerifyEmail';
 import { Heart, Loader2, Eye, EyeOff, UserPlus, Stethoscope } from 'lucide-react';
 
 const patientSchema = z.object({
@@ -47,22 +48,6 @@ export default function Register() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
-  const login = useAuthStore((state) => state.login);
-
-  // Fetch specializations
-  const { data: specializations = [] } = useQuery({
-  queryKey: ["specializations"],
-  queryFn: async () => {
-    // Replace this with actual API call later
-    return [
-      "Cardiology",
-      "Dermatology",
-      "Neurology",
-      "Pediatrics",
-    ];
-  },
-});
-
 
   // Patient form
   const patientForm = useForm<PatientForm>({
@@ -77,15 +62,15 @@ export default function Register() {
   const patientMutation = useMutation({
     mutationFn: (data: { name: string; email: string; password: string; phone: string }) => 
       authAPI.registerPatient(data),
-    onSuccess: (response) => {
-      login(response.user, response.token);
+    onSuccess: (pending) => {
       toast({
         title: 'Account Created!',
-        description: 'Welcome to MediCare. Your patient account has been created successfully.',
+        description: `We've sent a verification code to ${pending.sentTo}.`,
       });
-      navigate('/patient/dashboard');
+      navigate('/verify-email', { state: { email: pending.sentTo, pending } satisfies VerifyEmailState });
     },
     onError: (error: Error) => {
+      if (applyFieldErrors(error, patientForm.setError, ['name', 'email', 'phone', 'password'])) return;
       toast({
         title: 'Registration Failed',
         description: error.message || 'Something went wrong. Please try again.',
@@ -97,15 +82,16 @@ export default function Register() {
   const doctorMutation = useMutation({
     mutationFn: (data: { name: string; email: string; password: string; specialization: string; phone: string; licenseNumber: string }) => 
       authAPI.registerDoctor(data),
-    onSuccess: (response) => {
-      login(response.user, response.token);
+    onSuccess: (pending) => {
       toast({
         title: 'Account Created!',
-        description: 'Welcome to MediCare. Your doctor account has been created successfully.',
+        description: `We've sent a verification code to ${pending.sentTo}.`,
       });
-      navigate('/doctor/dashboard');
+      navigate('/verify-email', { state: { email: pending.sentTo, pending } satisfies VerifyEmailState });
     },
     onError: (error: Error) => {
+      const fields = ['name', 'email', 'phone', 'password', 'specialization', 'licenseNumber'] as const;
+      if (applyFieldErrors(error, doctorForm.setError, fields)) return;
       toast({
         title: 'Registration Failed',
         description: error.message || 'Something went wrong. Please try again.',
@@ -321,7 +307,7 @@ export default function Register() {
                         <SelectValue placeholder="Select your specialization" />
                       </SelectTrigger>
                       <SelectContent>
-                        {specializations.map((spec:any) => (
+                        {specializations.map((spec) => (
                           <SelectItem key={spec} value={spec}>
                             {spec}
                           </SelectItem>
@@ -340,6 +326,9 @@ export default function Register() {
                       placeholder="Enter your license number"
                       className="transition-all focus:shadow-medical"
                     />
+                    <p className="text-sm text-muted-foreground">
+                      After signing up you'll upload your license documents. Patients can book you once an admin has verified them.
+                    </p>
                     {doctorForm.formState.errors.licenseNumber && (
                       <p className="text-sm text-destructive">{doctorForm.formState.errors.licenseNumber.message}</p>
                     )}
@@ -0,0 +1,40 @@
+// Settings.tsx
+import { Link } from 'react-router-dom';
+import { Button } from '../components/ui/button';
+import { ReminderSettings } from '../components/appointments/ReminderSettings';
+import { ChangeEmailCard } from '../components/settings/ChangeEmailCard';
+import { ChangePasswordCard } from '../components/settings/ChangePasswordCard';
+import { DeleteAccountCard } from '../components/settings/DeleteAccountCard';
+import { useAuthStore } from '../store/authStor';
+import { ArrowLeft } from 'lucide-react';
+
+// Shared by both roles; mounted under /patient/settings and /doctor/settings
+export default function Settings(): JSX.Element {
+  const { user } = useAuthStore();
+  const home = user?.role === 'doctor' ? '/doctor/dashboard' : '/patient/appointments';
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" asChild className="mb-4 -ml-3">
+            <Link to={home}>
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to appointments
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Settings</h1>
+          <p className="text-muted-foreground">Sign-in details, notifications and your account</p>
+        </div>
+
+        <div className="space-y-6">
+          <ChangeEmailCard />
+          <ChangePasswordCard />
+          {user?.role === 'patient' && <ReminderSettings />}
+          <DeleteAccountCard />
+        </div>
+      </div>
+    </div>
+  );
+}
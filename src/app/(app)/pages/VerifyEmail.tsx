@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { CodeInput } from '../components/auth/CodeInput';
+import { ResendCodeButton } from '../components/auth/ResendCodeButton';
+import { useToast } from '../hooks/use-toast';
+import { CODE_LENGTH, verificationCodeSchema, type PendingVerification, type VerificationCode } from '../lib/account';
+import { authAPI, type AuthResponse } from '../lib/api';
+import { RateLimitError } from '../lib/errors';
+import { applyFieldErrors } from '../lib/forms';
+import { useAuthStore } from '../store/authStor';
+import { Loader2, MailCheck } from 'lucide-react';
+
+// Register sends `pending` along; Login only knows the address, so no code may be out yet
+export type VerifyEmailState = { email: string; pending?: PendingVerification };
+
+export default function VerifyEmail() {
+  const state = useLocation().state as VerifyEmailState | null;
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { login } = useAuthStore();
+  const [resendAt, setResendAt] = useState(state?.pending?.resendAt ?? null);
+
+  const { control, handleSubmit, setError, setValue, formState: { errors } } = useForm<VerificationCode>({
+    resolver: zodResolver(verificationCodeSchema),
+    defaultValues: { code: '' },
+  });
+
+  const verifyMutation = useMutation<AuthResponse, Error, string>({
+    mutationFn: (code) => authAPI.verifyEmail({ email: state!.email, code }),
+    onSuccess: (res) => {
+      login(res.user, res.token, res.refreshToken);
+      toast({ title: 'Email verified', description: 'Welcome to MediCare. Your account is ready.' });
+      navigate(`/${res.user.role}/dashboard`, { replace: true });
+    },
+    onError: (err) => {
+      setValue('code', '');
+      if (applyFieldErrors(err, setError, ['code'])) return;
+      toast({ title: 'Verification failed', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  const resendMutation = useMutation<PendingVerification, Error, void>({
+    mutationFn: () => authAPI.resendVerification(state!.email),
+    onSuccess: (sent) => {
+      setResendAt(sent.resendAt);
+      toast({ title: 'Code sent', description: `Check ${sent.sentTo} for a new code.` });
+    },
+    onError: (err) => {
+      if (err instanceof RateLimitError) setResendAt(err.retryAt);
+      toast({ title: 'Code not sent', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  if (!state?.email) return <Navigate to="/login" replace />;
+
+  return (
+    <div className="min-h-screen bg-[url('/images/hero.webp')] bg-cover bg-center flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-8">
+        <div className="text-center text-white">
+          <div className="flex justify-center mb-4">
+            <div className="bg-white/20 backdrop-blur-sm p-3 rounded-full">
+              <MailCheck className="w-8 h-8" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold">Check your email</h1>
+          <p className="text-white/80 mt-2">One last step before you can sign in</p>
+        </div>
+
+        <Card className="bg-white/95 backdrop-blur-sm shadow-lg border-0">
+          <CardHeader className="space-y-1 text-center">
+            <CardTitle className="text-2xl font-bold">Verify your email</CardTitle>
+            <CardDescription>
+              Enter the {CODE_LENGTH}-digit code we sent to <span className="font-medium text-foreground">{state.email}</span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit(({ code }) => verifyMutation.mutate(code))} className="space-y-4">
+              <div className="flex flex-col items-center space-y-2">
+                <Controller
+                  control={control}
+                  name="code"
+                  render={({ field }) => (
+                    <CodeInput
+                      value={field.value}
+                      onChange={field.onChange}
+                      onComplete={(code) => verifyMutation.mutate(code)}
+                      disabled={verifyMutation.isPending}
+                      invalid={Boolean(errors.code)}
+                    />
+                  )}
+                />
+                {errors.code && <p className="text-red-500 text-sm">{errors.code.message}</p>}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={verifyMutation.isPending}>
+                {verifyMutation.isPending ? <><Loader2 className="animate-spin mr-2 h-4 w-4" />Verifying...</> : 'Verify email'}
+              </Button>
+            </form>
+
+            <div className="text-center mt-4 text-sm text-muted-foreground">
+              Didn't get it?{' '}
+              <ResendCodeButton
+                resendAt={resendAt}
+                isPending={resendMutation.isPending}
+                onResend={() => resendMutation.mutate()}
+              />
+            </div>
+
+            <div className="text-center mt-4 text-sm">
+              <Link to="/login" className="text-blue-600 hover:underline font-medium">Back to sign in</Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Skeleton } from '../../components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
+import { LicenseDocumentDialog } from '../../components/licenses/LicenseDocumentDialog';
+import { LicenseDocumentList } from '../../components/licenses/LicenseDocumentList';
+import { RejectLicenseDialog } from '../../components/licenses/RejectLicenseDialog';
+import { useToast } from '../../hooks/use-toast';
+import { adminAPI } from '../../lib/api';
+import { ApiError } from '../../lib/errors';
+import {
+  getVerificationStatusColor,
+  VERIFICATION_STATUS_LABELS,
+  type LicenseDocument,
+  type ReviewDecision,
+  type VerificationRequest,
+  type VerificationStatus,
+} from '../../lib/licenses';
+import { BadgeCheck, CheckCircle, Loader2, Mail, XCircle } from 'lucide-react';
+
+const EMPTY_TEXT: Record<VerificationStatus, string> = {
+  pending_verification: 'No doctors are waiting for review.',
+  verified: 'No doctors have been verified yet.',
+  rejected: 'No licenses have been rejected.',
+};
+
+type Viewing = { doctorId: string; document: LicenseDocument };
+
+// Admin home: the license review queue. New doctors stay out of the directory until approved here.
+export default function AdminDashboard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<VerificationStatus>('pending_verification');
+  const [viewing, setViewing] = useState<Viewing | null>(null);
+  const [rejecting, setRejecting] = useState<VerificationRequest | null>(null);
+
+  const { data: requests = [], isLoading, isError, error } = useQuery<VerificationRequest[], Error>({
+    queryKey: ['admin-verifications', status],
+    queryFn: () => adminAPI.listVerifications(status),
+  });
+
+  const reviewMutation = useMutation<VerificationRequest, Error, { doctor: VerificationRequest; decision: ReviewDecision }>({
+    mutationFn: ({ doctor, decision }) => adminAPI.review(doctor.doctorId, decision),
+    onSuccess: (reviewed) => {
+      setRejecting(null);
+      queryClient.invalidateQueries({ queryKey: ['admin-verifications'] });
+      toast({
+        title: reviewed.status === 'verified' ? 'License approved' : 'License rejected',
+        description:
+          reviewed.status === 'verified'
+            ? `${reviewed.name} is now listed in the directory and has been notified.`
+            : `${reviewed.name} has been asked to upload corrected documents.`,
+      });
+    },
+    onError: (err) => {
+      // Someone else got there first; show the queue as it is now
+      if (err instanceof ApiError && err.status === 409) {
+        queryClient.invalidateQueries({ queryKey: ['admin-verifications'] });
+      }
+      toast({ title: 'Decision not saved', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  const reviewingId = reviewMutation.isPending ? reviewMutation.variables?.doctor.doctorId : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">License verifications</h1>
+          <p className="text-muted-foreground">Check new doctors' license documents before they go live</p>
+        </div>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as VerificationStatus)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="pending_verification">Pending</TabsTrigger>
+            <TabsTrigger value="verified">Verified</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value={status} className="mt-6">
+            {isLoading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 2 }).map((_, i) => (
+                  <Skeleton key={i} className="h-48 w-full" />
+                ))}
+              </div>
+            ) : isError ? (
+              <div className="text-center py-12">
+                <p className="text-destructive">Failed to load verification requests: {error?.message}</p>
+              </div>
+            ) : requests.length === 0 ? (
+              <div className="text-center py-12">
+                <BadgeCheck className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                <p className="text-muted-foreground">{EMPTY_TEXT[status]}</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {requests.map((doctor) => (
+                  <Card key={doctor.doctorId} className="shadow-card bg-gradient-card">
+                    <CardHeader>
+                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                        <div>
+                          <CardTitle className="text-lg">{doctor.name}</CardTitle>
+                          <p className="text-sm text-muted-foreground">{doctor.specialization}</p>
+                          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                            <Mail className="w-3.5 h-3.5" />
+                            {doctor.email}
+                          </p>
+                        </div>
+                        <div className="flex flex-col sm:items-end gap-1">
+                          <Badge className={getVerificationStatusColor(doctor.status)}>
+                            {VERIFICATION_STATUS_LABELS[doctor.status]}
+                          </Badge>
+                          <p className="text-sm">
+                            License <span className="font-medium">{doctor.licenseNumber || 'not given'}</span>
+                          </p>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <LicenseDocumentList
+                        documents={doctor.documents}
+                        onView={(document) => setViewing({ doctorId: doctor.doctorId, document })}
+                      />
+
+                      {doctor.review && (
+                        <p className="text-sm text-muted-foreground">
+                          {doctor.review.decision === 'approved' ? 'Approved' : 'Rejected'} on{' '}
+                          {format(new Date(doctor.review.reviewedAt), 'MMM d, yyyy')}
+                          {doctor.review.reason && (
+                            <>
+                              : <span className="text-foreground">{doctor.review.reason}</span>
+                            </>
+                          )}
+                        </p>
+                      )}
+
+                      {doctor.status === 'pending_verification' && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button
+                            variant="success"
+                            onClick={() => reviewMutation.mutate({ doctor, decision: { decision: 'approved' } })}
+                            disabled={doctor.documents.length === 0 || reviewingId === doctor.doctorId}
+                          >
+                            {reviewingId === doctor.doctorId && !rejecting ? (
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                              <CheckCircle className="w-4 h-4 mr-2" />
+                            )}
+                            Approve
+                          </Button>
+                          <Button
+                            variant="outline"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setRejecting(doctor)}
+                            disabled={doctor.documents.length === 0 || reviewingId === doctor.doctorId}
+                          >
+                            <XCircle className="w-4 h-4 mr-2" />
+                            Reject
+                          </Button>
+                          {doctor.documents.length === 0 && (
+                            <p className="text-sm text-muted-foreground">Waiting for the doctor to upload documents.</p>
+                          )}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <LicenseDocumentDialog
+        document={viewing?.document ?? null}
+        onOpenChange={(open) => !open && setViewing(null)}
+        load={(document) => adminAPI.getDocument(viewing!.doctorId, document.id)}
+      />
+
+      <RejectLicenseDialog
+        doctorName={rejecting?.name ?? null}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        isPending={reviewMutation.isPending}
+        onConfirm={(reason) =>
+          rejecting && reviewMutation.mutate({ doctor: rejecting, decision: { decision: 'rejected', reason } })
+        }
+      />
+    </div>
+  );
+}
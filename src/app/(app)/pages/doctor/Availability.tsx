@@ -0,0 +1,415 @@
+// DoctorAvailability.tsx
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Switch } from '../../components/ui/switch';
+import { Calendar } from '../../components/ui/calendar';
+import { Badge } from '../../components/ui/badge';
+import { Skeleton } from '../../components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { useToast } from '../../hooks/use-toast';
+import { availabilityAPI } from '../../lib/api';
+import {
+  DEFAULT_AVAILABILITY,
+  WEEKDAYS,
+  timeRangeSchema,
+  toDateKey,
+  toMinutes,
+  type AvailabilityRules,
+} from '../../lib/availability';
+import { localTimeZone } from '../../lib/timezones';
+import { ArrowLeft, Loader2, Plus, X } from 'lucide-react';
+
+const SLOT_LENGTHS = ['15', '20', '30', '45', '60'];
+
+const CANCELLATION_WINDOWS = ['0', '2', '6', '12', '24', '48', '72'];
+
+// Not every engine lists UTC or the alias a browser reports for itself, so those are added
+function timeZoneOptions(selected: string) {
+  return [...new Set([selected, localTimeZone(), 'UTC', ...Intl.supportedValuesOf('timeZone')])].sort();
+}
+
+const dayHoursSchema = z
+  .object({ enabled: z.boolean(), start: z.string(), end: z.string() })
+  .refine((day) => !day.enabled || (day.start && day.end && toMinutes(day.start) < toMinutes(day.end)), {
+    message: 'End time must be after start time',
+    path: ['end'],
+  });
+
+const availabilityFormSchema = z.object({
+  timeZone: z.string().min(1, 'Please select a time zone'),
+  slotMinutes: z.string().min(1, 'Please select a slot length'),
+  days: z.array(dayHoursSchema).length(7),
+  breaks: z.array(timeRangeSchema),
+  daysOff: z.array(z.date()),
+  keepStatusOnReschedule: z.boolean(),
+  cancellationWindowHours: z.string().min(1, 'Please select a cancellation window'),
+});
+
+type AvailabilityForm = z.infer<typeof availabilityFormSchema>;
+
+function toFormValues(rules: AvailabilityRules): AvailabilityForm {
+  return {
+    timeZone: rules.timeZone,
+    slotMinutes: String(rules.slotMinutes),
+    days: rules.weeklyHours.map((hours) => ({
+      enabled: Boolean(hours),
+      start: hours?.start ?? '09:00',
+      end: hours?.end ?? '17:00',
+    })),
+    breaks: rules.breaks,
+    daysOff: rules.daysOff.map((key) => new Date(`${key}T00:00:00`)),
+    keepStatusOnReschedule: rules.rescheduleStatus === 'keep',
+    cancellationWindowHours: String(rules.cancellationWindowHours),
+  };
+}
+
+function toRules(values: AvailabilityForm): AvailabilityRules {
+  return {
+    timeZone: values.timeZone,
+    slotMinutes: Number(values.slotMinutes),
+    weeklyHours: values.days.map((day) => (day.enabled ? { start: day.start, end: day.end } : null)),
+    breaks: values.breaks,
+    daysOff: values.daysOff.map((date) => toDateKey(date)).sort(),
+    rescheduleStatus: values.keepStatusOnReschedule ? 'keep' : 'pending',
+    cancellationWindowHours: Number(values.cancellationWindowHours),
+  };
+}
+
+export default function DoctorAvailability(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules, isLoading } = useQuery<AvailabilityRules, Error>({
+    queryKey: ['my-availability'],
+    queryFn: () => availabilityAPI.getMine(),
+  });
+
+  const {
+    control,
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    formState: { errors, isDirty },
+  } = useForm<AvailabilityForm>({
+    resolver: zodResolver(availabilityFormSchema),
+    defaultValues: toFormValues(DEFAULT_AVAILABILITY),
+  });
+
+  const breaks = useFieldArray({ control, name: 'breaks' });
+  const watchedDays = watch('days');
+  const watchedTimeZone = watch('timeZone');
+
+  useEffect(() => {
+    if (rules) reset(toFormValues(rules));
+  }, [rules, reset]);
+
+  const saveMutation = useMutation<AvailabilityRules, Error, AvailabilityRules>({
+    mutationFn: (next) => availabilityAPI.updateMine(next),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['my-availability'], saved);
+      queryClient.invalidateQueries({ queryKey: ['doctor-availability'] });
+      reset(toFormValues(saved));
+      toast({ title: 'Availability saved', description: 'Patients will only see slots within your new hours.' });
+    },
+    onError: (err) => {
+      toast({
+        title: 'Save failed',
+        description: err.message || 'Unable to save availability',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (values: AvailabilityForm) => saveMutation.mutate(toRules(values));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" asChild className="mb-4 -ml-3">
+            <Link to="/doctor/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to appointments
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Availability</h1>
+          <p className="text-muted-foreground">Set the hours patients can book with you</p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-64 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            {/* Working hours */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Weekly working hours</CardTitle>
+                <CardDescription>Turn a day off to stop taking bookings on it</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-2 pb-3">
+                  <Label>Time zone</Label>
+                  <Controller
+                    control={control}
+                    name="timeZone"
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger className="w-64">
+                          <SelectValue placeholder="Select time zone" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {timeZoneOptions(field.value).map((zone) => (
+                            <SelectItem key={zone} value={zone}>
+                              {zone.replace(/_/g, ' ')}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Your hours and days off are in this zone. Patients elsewhere still book the right time.
+                  </p>
+                  {watchedTimeZone !== localTimeZone() && (
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="h-auto p-0"
+                      onClick={() => setValue('timeZone', localTimeZone(), { shouldDirty: true })}
+                    >
+                      Use this device's time zone ({localTimeZone()})
+                    </Button>
+                  )}
+                  {errors.timeZone && <p className="text-sm text-destructive">{errors.timeZone.message}</p>}
+                </div>
+                {WEEKDAYS.map((weekday, i) => (
+                  <div key={weekday} className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex items-center gap-3 sm:w-40">
+                      <Controller
+                        control={control}
+                        name={`days.${i}.enabled`}
+                        render={({ field }) => (
+                          <Switch checked={field.value} onCheckedChange={field.onChange} aria-label={weekday} />
+                        )}
+                      />
+                      <span className="font-medium">{weekday}</span>
+                    </div>
+                    {watchedDays[i]?.enabled ? (
+                      <div className="flex items-center gap-2">
+                        <Input type="time" className="w-32" {...register(`days.${i}.start`)} />
+                        <span className="text-muted-foreground">to</span>
+                        <Input type="time" className="w-32" {...register(`days.${i}.end`)} />
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Unavailable</span>
+                    )}
+                    {errors.days?.[i]?.end && (
+                      <p className="text-sm text-destructive">{errors.days[i]?.end?.message}</p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Slot length & breaks */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Slots and breaks</CardTitle>
+                <CardDescription>Breaks apply to every working day</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label>Appointment length</Label>
+                  <Controller
+                    control={control}
+                    name="slotMinutes"
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Select length" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SLOT_LENGTHS.map((minutes) => (
+                            <SelectItem key={minutes} value={minutes}>
+                              {minutes} minutes
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  {errors.slotMinutes && <p className="text-sm text-destructive">{errors.slotMinutes.message}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Breaks</Label>
+                  {breaks.fields.length === 0 && <p className="text-sm text-muted-foreground">No breaks</p>}
+                  {breaks.fields.map((field, i) => (
+                    <div key={field.id} className="flex items-center gap-2">
+                      <Input type="time" className="w-32" {...register(`breaks.${i}.start`)} />
+                      <span className="text-muted-foreground">to</span>
+                      <Input type="time" className="w-32" {...register(`breaks.${i}.end`)} />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => breaks.remove(i)}
+                        aria-label="Remove break"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                      {errors.breaks?.[i]?.end && (
+                        <p className="text-sm text-destructive">{errors.breaks[i]?.end?.message}</p>
+                      )}
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => breaks.append({ start: '12:00', end: '13:00' })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add break
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Days off */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Days off</CardTitle>
+                <CardDescription>Pick the dates you are away; no slots are offered on them</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Controller
+                  control={control}
+                  name="daysOff"
+                  render={({ field }) => (
+                    <div className="flex flex-col md:flex-row gap-6">
+                      <Calendar
+                        mode="multiple"
+                        selected={field.value}
+                        onSelect={(dates) => field.onChange(dates ?? [])}
+                        disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                        className="p-3 rounded-md border"
+                      />
+                      <div className="flex flex-wrap gap-2 content-start">
+                        {field.value.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No days off scheduled</p>
+                        ) : (
+                          [...field.value]
+                            .sort((a, b) => a.getTime() - b.getTime())
+                            .map((date) => (
+                              <Badge key={date.toISOString()} variant="secondary">
+                                {format(date, 'MMM d, yyyy')}
+                              </Badge>
+                            ))
+                        )}
+                      </div>
+                    </div>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Rescheduling & cancellation */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Rescheduling and cancellation</CardTitle>
+                <CardDescription>Patients can move or cancel pending and confirmed appointments</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex items-start gap-3">
+                  <Controller
+                    control={control}
+                    name="keepStatusOnReschedule"
+                    render={({ field }) => (
+                      <Switch
+                        id="keep-status"
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        className="mt-0.5"
+                      />
+                    )}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="keep-status">Keep confirmed appointments confirmed</Label>
+                    <p className="text-sm text-muted-foreground">
+                      When off, a rescheduled appointment goes back to pending until you confirm the new time.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Cancellation notice</Label>
+                  <Controller
+                    control={control}
+                    name="cancellationWindowHours"
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Select notice" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CANCELLATION_WINDOWS.map((hours) => (
+                            <SelectItem key={hours} value={hours}>
+                              {hours === '0' ? 'No notice needed' : `${hours} hours`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Patients can't cancel or reschedule online once an appointment is closer than this.
+                  </p>
+                  {errors.cancellationWindowHours && (
+                    <p className="text-sm text-destructive">{errors.cancellationWindowHours.message}</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => reset(toFormValues(rules ?? DEFAULT_AVAILABILITY))}
+                disabled={!isDirty}
+              >
+                Discard changes
+              </Button>
+              <Button type="submit" variant="medical" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save availability'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
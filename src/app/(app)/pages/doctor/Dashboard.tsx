@@ -1,5 +1,6 @@
 // DoctorDashboard.tsx
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '../../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
@@ -7,98 +8,324 @@ import { Badge } from '../../components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '../../components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
 import { Input } from '../../components/ui/input';
+import { Checkbox } from '../../components/ui/checkbox';
+import { ToggleGroup, ToggleGroupItem } from '../../components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../../components/ui/dialog';
 import { Skeleton } from '../../components/ui/skeleton';
+import { CancelAppointmentDialog } from '../../components/appointments/CancelAppointmentDialog';
+import { DoctorCalendar } from '../../components/appointments/DoctorCalendar';
+import { PatientProfileSummary } from '../../components/appointments/PatientProfileSummary';
+import { PrescriptionDialog } from '../../components/appointments/PrescriptionDialog';
+import { VisitRecordDialog } from '../../components/appointments/VisitRecordDialog';
+import { VerificationBanner } from '../../components/licenses/VerificationBanner';
 import { useToast } from '../../hooks/use-toast';
-import { appointmentsAPI } from '../../lib/api';
-import { Navbar } from '../../components/layout/Navbar';
+import { appointmentsAPI, availabilityAPI } from '../../lib/api';
+import { DEFAULT_AVAILABILITY } from '../../lib/availability';
+import { BookingConflictError } from '../../lib/errors';
+import { canPrescribe } from '../../lib/prescriptions';
+import {
+  allowedTransitions,
+  canTransition,
+  getStatusColor,
+  isActive,
+  type AppointmentChange,
+  type AppointmentStatus,
+  type BulkStatusResult,
+  type DoctorAppointment,
+} from '../../lib/appointments';
 import {
   Calendar,
+  CalendarClock,
   Clock,
   Mail,
   CheckCircle,
   X,
   Search,
   Loader2,
+  History,
+  List,
+  CalendarDays,
+  FileText,
+  ClipboardList,
+  Pill,
+  UserRound,
 } from 'lucide-react';
 import { format, startOfDay, endOfDay } from 'date-fns';
 
-type AppointmentStatus = 'all' | 'pending' | 'confirmed' | 'completed' | 'cancelled';
+type StatusFilter = 'all' | AppointmentStatus;
+
+type DashboardView = 'list' | 'calendar';
+
+type StatusVariables = { appointment: DoctorAppointment; status: AppointmentStatus; reason?: string };
+
+// Single-row and bulk status changes share this prefix so each can tell whether the other is still running
+const STATUS_MUTATION_KEY = ['appointment-status'];
+const BULK_STATUS_MUTATION_KEY = [...STATUS_MUTATION_KEY, 'bulk'];
+
+type BulkVariables = { appointments: DoctorAppointment[]; status: AppointmentStatus; reason?: string };
+
+type BulkFailure = Extract<BulkStatusResult, { ok: false }>;
 
-type Appointment = {
-  id: string;
-  patientName: string;
-  patientEmail: string;
-  patientAvatar?: string | null;
-  status: Exclude<AppointmentStatus, 'all'>; // 'pending' | 'confirmed' | 'completed' | 'cancelled'
-  date: string; // ISO string
+// Button shown for each status a doctor can move an appointment into
+const STATUS_ACTIONS: Partial<
+  Record<AppointmentStatus, { label: string; variant: 'success' | 'default' | 'destructive' }>
+> = {
+  confirmed: { label: 'Confirm', variant: 'success' },
+  completed: { label: 'Mark Complete', variant: 'default' },
+  cancelled: { label: 'Cancel', variant: 'destructive' },
 };
 
+function describeChange(change: AppointmentChange, patientName: string) {
+  const who = change.by === 'patient' ? patientName : 'You';
+  const moved = `${who} moved it from ${format(new Date(change.fromDate), 'MMM d, h:mm a')} to ${format(new Date(change.toDate), 'MMM d, h:mm a')}`;
+  return change.fromStatus === change.toStatus ? moved : `${moved} (${change.fromStatus} → ${change.toStatus})`;
+}
+
 export default function DoctorDashboard(): JSX.Element {
-  const [selectedStatus, setSelectedStatus] = useState<AppointmentStatus>('all');
+  const [selectedStatus, setSelectedStatus] = useState<StatusFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [dateFilter, setDateFilter] = useState('');
-  const [updatingId, setUpdatingId] = useState<string | null>(null); // id of appointment currently updating
+  const [updating, setUpdating] = useState<Record<string, number>>({}); // status changes queued or in flight, per row
+  const rowQueues = useRef(new Map<string, Promise<unknown>>());
+  const [cancelling, setCancelling] = useState<DoctorAppointment | null>(null);
+  const [view, setView] = useState<DashboardView>('list');
+  const [openId, setOpenId] = useState<string | null>(null); // appointment shown in the details dialog
+  // Visit notes being written; `completing` marks the appointment completed once they're saved
+  const [recording, setRecording] = useState<{ appointment: DoctorAppointment; completing: boolean } | null>(null);
+  const [prescribing, setPrescribing] = useState<DoctorAppointment | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [bulkCancelling, setBulkCancelling] = useState<DoctorAppointment[] | null>(null);
+  const [bulkErrors, setBulkErrors] = useState<Record<string, string>>({}); // row failures from the last bulk change
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedId = searchParams.get('appointment'); // set when arriving from a notification
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Only the last status change to settle refetches; an earlier refetch would undo the optimistic status
+  // of rows still in flight, single or bulk. The settling mutation still counts itself here.
+  const refetchAfterLastStatusChange = () => {
+    if (queryClient.isMutating({ mutationKey: STATUS_MUTATION_KEY }) === 1) {
+      queryClient.invalidateQueries({ queryKey: ['doctor-appointments'] });
+    }
+  };
+
   // Fetch appointments (typed)
-  const { data: appointments = [], isLoading, isError, error } = useQuery<Appointment[], Error>({
+  const { data: appointments = [], isLoading, isError, error } = useQuery<DoctorAppointment[], Error>({
     queryKey: ['doctor-appointments'],
     queryFn: () => appointmentsAPI.getDoctorAppointments(),
     staleTime: 1000 * 60 * 30, // 30 minutes stale (adjust as needed)
   });
 
-  // Optimistic status update mutation
+  // Slot length for snapping calendar drops
+  const { data: availability = DEFAULT_AVAILABILITY } = useQuery({
+    queryKey: ['my-availability'],
+    queryFn: () => availabilityAPI.getMine(),
+    enabled: view === 'calendar',
+  });
+
+  // Optimistic status update; each call patches and, on failure, restores only its own row
   const updateStatusMutation = useMutation<
-    Appointment, // returned appointment (if your API returns it)
+    DoctorAppointment,
     Error,
-    { appointmentId: string; status: Appointment['status'] }
+    StatusVariables,
+    { previous?: DoctorAppointment }
   >({
-    mutationFn: ({ appointmentId, status }) => appointmentsAPI.updateStatus(appointmentId, status),
-    onMutate: async ({ appointmentId, status }) => {
-      // Track which appointment is updating to show per-row loader
-      setUpdatingId(appointmentId);
-
+    mutationKey: STATUS_MUTATION_KEY,
+    mutationFn: ({ appointment, status, reason }) => appointmentsAPI.updateStatus(appointment, status, reason),
+    onMutate: async ({ appointment, status }) => {
       // Cancel any outgoing refetches (so they don't overwrite optimistic update)
       await queryClient.cancelQueries({ queryKey: ['doctor-appointments'] });
 
-      const previous = queryClient.getQueryData<Appointment[]>(['doctor-appointments']);
+      const previous = queryClient
+        .getQueryData<DoctorAppointment[]>(['doctor-appointments'])
+        ?.find((a) => a.id === appointment.id);
+      queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+        current?.map((a) => (a.id === appointment.id ? { ...a, status } : a))
+      );
 
-      // Optimistically update cache
+      return { previous };
+    },
+    onError: (err, _vars, context) => {
+      const previous = context?.previous;
       if (previous) {
-        queryClient.setQueryData<Appointment[]>(
-          ['doctor-appointments'],
-          previous.map((a) => (a.id === appointmentId ? { ...a, status } : a))
+        queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+          current?.map((a) => (a.id === previous.id ? previous : a))
         );
       }
 
+      toast({
+        title: 'Update failed',
+        description: err.message || 'Unable to update appointment status',
+        variant: 'destructive',
+      });
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+        current?.map((a) => (a.id === data.id ? data : a))
+      );
+      toast({
+        title: 'Status updated',
+        description: `Appointment marked as ${data.status}.`,
+      });
+    },
+    onSettled: refetchAfterLastStatusChange,
+  });
+
+  // Runs after any update already queued for the same row, checked against the status that one left behind.
+  // Resolves with the updated appointment, or undefined if it failed (the mutation has already reported why).
+  const queueStatusUpdate = (variables: StatusVariables) => {
+    const id = variables.appointment.id;
+    setUpdating((current) => ({ ...current, [id]: (current[id] ?? 0) + 1 }));
+
+    const prior = rowQueues.current.get(id) ?? Promise.resolve();
+    const next = prior.then(() => {
+      const appointment =
+        queryClient.getQueryData<DoctorAppointment[]>(['doctor-appointments'])?.find((a) => a.id === id) ??
+        variables.appointment;
+      return updateStatusMutation.mutateAsync({ ...variables, appointment }).catch(() => undefined);
+    });
+    rowQueues.current.set(id, next);
+
+    return next.finally(() => {
+      if (rowQueues.current.get(id) === next) rowQueues.current.delete(id);
+      setUpdating(({ [id]: count = 1, ...rest }) => (count > 1 ? { ...rest, [id]: count - 1 } : rest));
+    });
+  };
+
+  // Optimistic bulk change; rows the server rejects go back to how they were and stay selected
+  const bulkStatusMutation = useMutation<
+    BulkStatusResult[],
+    Error,
+    BulkVariables,
+    { previous: Map<string, DoctorAppointment> }
+  >({
+    mutationKey: BULK_STATUS_MUTATION_KEY,
+    mutationFn: ({ appointments, status, reason }) => appointmentsAPI.updateStatusBulk(appointments, status, reason),
+    onMutate: async ({ appointments, status }) => {
+      await queryClient.cancelQueries({ queryKey: ['doctor-appointments'] });
+      const previous = new Map(appointments.map((a) => [a.id, a]));
+      setBulkErrors({});
+      queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+        current?.map((a) => (previous.has(a.id) ? { ...a, status } : a))
+      );
       return { previous };
     },
-    onError: (err, variables, context: any | undefined) => {
-      // rollback
-      if (context?.previous) {
-        queryClient.setQueryData<Appointment[]>(['doctor-appointments'], context.previous);
+    onSuccess: (results, { status }, context) => {
+      const byId = new Map(results.map((result) => [result.id, result]));
+      queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+        current?.map((a) => {
+          const result = byId.get(a.id);
+          if (!result) return a;
+          return result.ok ? result.appointment : (context?.previous.get(a.id) ?? a);
+        })
+      );
+
+      const failed = results.filter((result): result is BulkFailure => !result.ok);
+      const updated = results.length - failed.length;
+      setBulkErrors(Object.fromEntries(failed.map((result) => [result.id, result.message])));
+      setSelectedIds(new Set(failed.map((result) => result.id)));
+
+      toast(
+        failed.length === 0
+          ? {
+              title: 'Appointments updated',
+              description: `${updated} appointment${updated === 1 ? '' : 's'} marked as ${status}.${
+                status === 'completed' ? ' Add visit notes from each appointment.' : ''
+              }`,
+            }
+          : {
+              title: `${updated} updated, ${failed.length} failed`,
+              description: 'The appointments that could not be changed are still selected.',
+              variant: updated === 0 ? 'destructive' : 'default',
+            }
+      );
+    },
+    onError: (err, _vars, context) => {
+      if (context) {
+        queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+          current?.map((a) => context.previous.get(a.id) ?? a)
+        );
       }
-
       toast({
         title: 'Update failed',
-        description: err.message || 'Unable to update appointment status',
+        description: err.message || 'Unable to update appointments',
         variant: 'destructive',
       });
     },
-    onSettled: (_data, _err, _vars) => {
-      setUpdatingId(null);
-      queryClient.invalidateQueries({ queryKey: ['doctor-appointments'] });
+    onSettled: refetchAfterLastStatusChange,
+  });
+
+  // Optimistic move from the calendar
+  const rescheduleMutation = useMutation<
+    DoctorAppointment,
+    Error,
+    { appointment: DoctorAppointment; date: Date },
+    { previous?: DoctorAppointment[] }
+  >({
+    mutationFn: ({ appointment, date }) => appointmentsAPI.rescheduleForDoctor(appointment, date.toISOString()),
+    onMutate: async ({ appointment, date }) => {
+      await queryClient.cancelQueries({ queryKey: ['doctor-appointments'] });
+      const previous = queryClient.getQueryData<DoctorAppointment[]>(['doctor-appointments']);
+      queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], (current) =>
+        current?.map((a) => (a.id === appointment.id ? { ...a, date: date.toISOString() } : a))
+      );
+      return { previous };
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData<DoctorAppointment[]>(['doctor-appointments'], context.previous);
+      }
+      const [alternative] = err instanceof BookingConflictError ? err.alternatives : [];
+      toast({
+        title: 'Move failed',
+        description: alternative
+          ? `${err.message}. Nearest free time: ${format(new Date(alternative), 'EEE, MMM d · h:mm a')}.`
+          : err.message || 'Unable to move appointment',
+        variant: 'destructive',
+      });
     },
     onSuccess: (data) => {
       toast({
-        title: 'Status updated',
-        description: `Appointment marked as ${data.status}.`,
+        title: 'Appointment moved',
+        description: `${data.patientName}'s appointment is now on ${format(new Date(data.date), 'PPP p')}.`,
       });
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['doctor-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['doctor-busy'] });
+    },
   });
 
+  const handleReschedule = (appointment: DoctorAppointment, date: Date) => {
+    if (date < new Date()) {
+      toast({ title: 'Move failed', description: 'Appointments can only be moved to a future time.', variant: 'destructive' });
+      return;
+    }
+    rescheduleMutation.mutate({ appointment, date });
+  };
+
+  const openAppointment = appointments.find((a) => a.id === openId) ?? null;
+
+  // Opens the appointment a notification pointed at, then drops the param so a reload doesn't reopen it
+  useEffect(() => {
+    if (!linkedId || isLoading) return;
+    if (appointments.some((a) => a.id === linkedId)) setOpenId(linkedId);
+    setSearchParams(
+      (params) => {
+        params.delete('appointment');
+        return params;
+      },
+      { replace: true }
+    );
+  }, [linkedId, isLoading, appointments, setSearchParams]);
+
   // Filters (memoized)
   const filteredAppointments = useMemo(() => {
     if (!appointments) return [];
@@ -118,8 +345,8 @@ export default function DoctorDashboard(): JSX.Element {
         }
       }
 
-      // Date filter
-      if (dateFilter) {
+      // Date filter (the calendar has its own navigation)
+      if (dateFilter && view === 'list') {
         const appointmentDate = new Date(appointment.date);
         const filterDate = new Date(dateFilter);
         if (Number.isNaN(appointmentDate.getTime()) || Number.isNaN(filterDate.getTime()))
@@ -130,24 +357,42 @@ export default function DoctorDashboard(): JSX.Element {
 
       return true;
     });
-  }, [appointments, selectedStatus, searchTerm, dateFilter]);
+  }, [appointments, selectedStatus, searchTerm, dateFilter, view]);
+
+  // Only open appointments can be selected, and only those the current filters show
+  const selectable = filteredAppointments.filter((a) => isActive(a.status));
+  const selected = selectable.filter((a) => selectedIds.has(a.id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
 
-  const getStatusColor = useCallback((status: Appointment['status']) => {
-    switch (status) {
-      case 'confirmed':
-        return 'bg-success text-success-foreground';
-      case 'pending':
-        return 'bg-warning text-warning-foreground';
-      case 'completed':
-        return 'bg-primary text-primary-foreground';
-      case 'cancelled':
-        return 'bg-destructive text-destructive-foreground';
-      default:
-        return 'bg-muted text-muted-foreground';
-    }
-  }, []);
+  // Each bulk action applies to the selected rows that can make that move; cancelling asks for one shared reason.
+  // Completing skips the visit notes step, so notes are added afterwards from each appointment.
+  const handleBulkAction = (status: AppointmentStatus) => {
+    const targets = selected.filter((a) => canTransition(a.status, status, 'doctor'));
+    if (status === 'cancelled') return setBulkCancelling(targets);
+    bulkStatusMutation.mutate({ appointments: targets, status });
+  };
+
+  const handleBulkCancelConfirm = (reason: string) => {
+    if (!bulkCancelling) return;
+    bulkStatusMutation.mutate({ appointments: bulkCancelling, status: 'cancelled', reason });
+    setBulkCancelling(null);
+  };
+
+  const isBulkUpdating = (id: string) =>
+    bulkStatusMutation.isPending && Boolean(bulkStatusMutation.variables?.appointments.some((a) => a.id === id));
 
-  const getStatusIcon = useCallback((status: Appointment['status']) => {
+  // A second click while a change is queued would ask for a move the first one already made
+  const isRowBusy = (id: string) => Boolean(updating[id]) || isBulkUpdating(id);
+
+  const getStatusIcon = useCallback((status: AppointmentStatus) => {
     switch (status) {
       case 'confirmed':
         return <CheckCircle className="w-4 h-4" />;
@@ -162,10 +407,67 @@ export default function DoctorDashboard(): JSX.Element {
     }
   }, []);
 
-  const handleStatusUpdate = (appointmentId: string, status: Appointment['status']) => {
-    updateStatusMutation.mutate({ appointmentId, status });
+  // Cancelling asks for a reason first; completing asks for visit notes
+  const handleStatusUpdate = (appointment: DoctorAppointment, status: AppointmentStatus) => {
+    if (status === 'cancelled') return setCancelling(appointment);
+    if (status === 'completed') return setRecording({ appointment, completing: true });
+    queueStatusUpdate({ appointment, status });
+  };
+
+  const handleRecordSaved = (saved: DoctorAppointment) => {
+    if (!recording?.completing) return;
+    // Straight on to the prescription once the visit is closed
+    queueStatusUpdate({ appointment: saved, status: 'completed' }).then((completed) => completed && setPrescribing(completed));
   };
 
+  const handleCancelConfirm = (reason: string) => {
+    if (!cancelling) return;
+    queueStatusUpdate({ appointment: cancelling, status: 'cancelled', reason });
+    setCancelling(null);
+  };
+
+  // Buttons for each status the doctor can move this appointment into
+  const renderActions = (appointment: DoctorAppointment) => (
+    <>
+      {allowedTransitions(appointment.status, 'doctor').map((next) => {
+        const action = STATUS_ACTIONS[next];
+        if (!action) return null;
+        return (
+          <Button
+            key={next}
+            variant={action.variant}
+            size="sm"
+            onClick={() => handleStatusUpdate(appointment, next)}
+            disabled={isRowBusy(appointment.id)}
+            aria-disabled={isRowBusy(appointment.id)}
+          >
+            {action.label}
+          </Button>
+        );
+      })}
+
+      {appointment.status === 'completed' && (
+        <Button variant="outline" size="sm" onClick={() => setRecording({ appointment, completing: false })}>
+          <ClipboardList className="w-4 h-4 mr-1" />
+          {appointment.record ? 'Edit notes' : 'Add notes'}
+        </Button>
+      )}
+
+      {canPrescribe(appointment) && (
+        <Button variant="outline" size="sm" onClick={() => setPrescribing(appointment)}>
+          <Pill className="w-4 h-4 mr-1" />
+          {appointment.prescription ? 'Edit prescription' : 'Prescribe'}
+        </Button>
+      )}
+
+      {allowedTransitions(appointment.status, 'doctor').length === 0 && appointment.status !== 'completed' && (
+        <Button variant="outline" size="sm" disabled>
+          Cancelled
+        </Button>
+      )}
+    </>
+  );
+
   const clearFilters = () => {
     setSearchTerm('');
     setDateFilter('');
@@ -185,15 +487,39 @@ export default function DoctorDashboard(): JSX.Element {
 
   return (
     <div className="min-h-screen bg-background">
-      <Navbar />
-
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-foreground mb-2">My Appointments</h1>
-          <p className="text-muted-foreground">Manage your patient appointments and consultations</p>
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">My Appointments</h1>
+            <p className="text-muted-foreground">Manage your patient appointments and consultations</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <ToggleGroup
+              type="single"
+              value={view}
+              onValueChange={(value) => value && setView(value as DashboardView)}
+              variant="outline"
+              aria-label="Appointments view"
+            >
+              <ToggleGroupItem value="list" aria-label="List view">
+                <List className="w-4 h-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="calendar" aria-label="Calendar view">
+                <CalendarDays className="w-4 h-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <Button variant="outline" asChild>
+              <Link to="/doctor/availability">
+                <CalendarClock className="w-4 h-4 mr-2" />
+                Availability
+              </Link>
+            </Button>
+          </div>
         </div>
 
+        <VerificationBanner />
+
         {/* Filters */}
         <div className="bg-gradient-card rounded-lg p-6 shadow-card mb-8">
           <div className="flex flex-col md:flex-row gap-4 items-center">
@@ -208,7 +534,7 @@ export default function DoctorDashboard(): JSX.Element {
               />
             </div>
 
-            <div className="w-full md:w-48">
+            <div className={view === 'list' ? 'w-full md:w-48' : 'hidden'}>
               <Input
                 type="date"
                 aria-label="Filter by date"
@@ -267,7 +593,7 @@ export default function DoctorDashboard(): JSX.Element {
         </div>
 
         {/* Tabs & List */}
-        <Tabs value={selectedStatus} onValueChange={(value) => setSelectedStatus(value as AppointmentStatus)}>
+        <Tabs value={selectedStatus} onValueChange={(value) => setSelectedStatus(value as StatusFilter)}>
           <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="all">All</TabsTrigger>
             <TabsTrigger value="pending">Pending</TabsTrigger>
@@ -312,6 +638,13 @@ export default function DoctorDashboard(): JSX.Element {
               <div className="text-center py-12">
                 <p className="text-destructive">Failed to load appointments: {error?.message}</p>
               </div>
+            ) : view === 'calendar' ? (
+              <DoctorCalendar
+                appointments={filteredAppointments}
+                slotMinutes={availability.slotMinutes}
+                onOpen={(appointment) => setOpenId(appointment.id)}
+                onReschedule={handleReschedule}
+              />
             ) : filteredAppointments.length === 0 ? (
               <div className="text-center py-12">
                 <div className="text-6xl mb-4">📅</div>
@@ -324,6 +657,45 @@ export default function DoctorDashboard(): JSX.Element {
               </div>
             ) : (
               <div className="space-y-4">
+                {selectable.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-3 rounded-lg bg-gradient-card shadow-card px-4 py-3">
+                    <Checkbox
+                      checked={
+                        selected.length === 0 ? false : selected.length === selectable.length ? true : 'indeterminate'
+                      }
+                      onCheckedChange={(checked) =>
+                        setSelectedIds(checked === true ? new Set(selectable.map((a) => a.id)) : new Set())
+                      }
+                      aria-label="Select all open appointments"
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      {selected.length > 0 ? `${selected.length} selected` : 'Select open appointments to update several at once'}
+                    </span>
+                    {selected.length > 0 && (
+                      <div className="flex flex-wrap gap-2 sm:ml-auto">
+                        {(['confirmed', 'completed', 'cancelled'] as const).map((status) => {
+                          const action = STATUS_ACTIONS[status]!;
+                          const count = selected.filter((a) => canTransition(a.status, status, 'doctor')).length;
+                          return (
+                            <Button
+                              key={status}
+                              variant={action.variant}
+                              size="sm"
+                              onClick={() => handleBulkAction(status)}
+                              disabled={count === 0 || bulkStatusMutation.isPending}
+                            >
+                              {action.label} ({count})
+                            </Button>
+                          );
+                        })}
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                          Clear
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {filteredAppointments.map((appointment) => {
                   // safe date formatting
                   const dateObj = new Date(appointment.date);
@@ -334,6 +706,13 @@ export default function DoctorDashboard(): JSX.Element {
                       <CardHeader className="pb-4">
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-4">
+                            {isActive(appointment.status) && (
+                              <Checkbox
+                                checked={selectedIds.has(appointment.id)}
+                                onCheckedChange={(checked) => toggleSelected(appointment.id, checked === true)}
+                                aria-label={`Select ${appointment.patientName}'s appointment`}
+                              />
+                            )}
                             <Avatar className="h-12 w-12">
                               {appointment.patientAvatar ? (
                                 <AvatarImage src={appointment.patientAvatar} alt={appointment.patientName} />
@@ -344,7 +723,11 @@ export default function DoctorDashboard(): JSX.Element {
                               )}
                             </Avatar>
                             <div>
-                              <CardTitle className="text-lg">{appointment.patientName}</CardTitle>
+                              <CardTitle className="text-lg">
+                                <Link to={`/doctor/patients/${appointment.patientId}`} className="hover:underline">
+                                  {appointment.patientName}
+                                </Link>
+                              </CardTitle>
                               <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                                 <Mail className="w-3 h-3" />
                                 <span>{appointment.patientEmail}</span>
@@ -353,7 +736,11 @@ export default function DoctorDashboard(): JSX.Element {
                           </div>
 
                           <Badge className={getStatusColor(appointment.status)}>
-                            {getStatusIcon(appointment.status)}
+                            {isRowBusy(appointment.id) ? (
+                              <Loader2 className="w-4 h-4 animate-spin" aria-label="Updating" />
+                            ) : (
+                              getStatusIcon(appointment.status)
+                            )}
                             <span className="ml-1 capitalize">{appointment.status}</span>
                           </Badge>
                         </div>
@@ -374,69 +761,50 @@ export default function DoctorDashboard(): JSX.Element {
                           </div>
 
                           <div className="flex gap-2">
-                            {appointment.status === 'pending' && (
-                              <>
-                                <Button
-                                  variant="success"
-                                  size="sm"
-                                  onClick={() => handleStatusUpdate(appointment.id, 'confirmed')}
-                                  disabled={Boolean(updatingId)}
-                                  aria-disabled={Boolean(updatingId)}
-                                >
-                                  {updatingId === appointment.id ? (
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                  ) : (
-                                    'Confirm'
-                                  )}
-                                </Button>
-
-                                <Button
-                                  variant="destructive"
-                                  size="sm"
-                                  onClick={() => handleStatusUpdate(appointment.id, 'cancelled')}
-                                  disabled={Boolean(updatingId)}
-                                  aria-disabled={Boolean(updatingId)}
-                                >
-                                  Cancel
-                                </Button>
-                              </>
-                            )}
-
-                            {appointment.status === 'confirmed' && (
-                              <>
-                                <Button
-                                  variant="default"
-                                  size="sm"
-                                  onClick={() => handleStatusUpdate(appointment.id, 'completed')}
-                                  disabled={Boolean(updatingId)}
-                                  aria-disabled={Boolean(updatingId)}
-                                >
-                                  {updatingId === appointment.id ? (
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                  ) : (
-                                    'Mark Complete'
-                                  )}
-                                </Button>
-
-                                <Button
-                                  variant="destructive"
-                                  size="sm"
-                                  onClick={() => handleStatusUpdate(appointment.id, 'cancelled')}
-                                  disabled={Boolean(updatingId)}
-                                  aria-disabled={Boolean(updatingId)}
-                                >
-                                  Cancel
-                                </Button>
-                              </>
-                            )}
-
-                            {(appointment.status === 'completed' || appointment.status === 'cancelled') && (
-                              <Button variant="outline" size="sm" disabled>
-                                {appointment.status === 'completed' ? 'Completed' : 'Cancelled'}
-                              </Button>
-                            )}
+                            {renderActions(appointment)}
                           </div>
                         </div>
+
+                        {bulkErrors[appointment.id] && (
+                          <p className="mt-2 text-sm text-destructive">{bulkErrors[appointment.id]}</p>
+                        )}
+
+                        {appointment.notes && (
+                          <p className="mt-4 text-sm">
+                            <span className="text-muted-foreground">Intake notes:</span> {appointment.notes}
+                          </p>
+                        )}
+
+                        {appointment.record?.diagnosis && (
+                          <p className="mt-2 text-sm">
+                            <span className="text-muted-foreground">Diagnosis:</span> {appointment.record.diagnosis}
+                          </p>
+                        )}
+
+                        {appointment.cancellation && (
+                          <p className="mt-4 text-sm text-muted-foreground">
+                            Cancelled by {appointment.cancellation.by === 'doctor' ? 'you' : appointment.patientName}:{' '}
+                            {appointment.cancellation.reason}
+                          </p>
+                        )}
+
+                        {appointment.history?.length ? (
+                          <div className="mt-4 border-t pt-3 space-y-1">
+                            <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+                              <History className="w-3 h-3" />
+                              Change history
+                            </p>
+                            <ul className="space-y-0.5">
+                              {[...appointment.history].reverse().map((change) => (
+                                <li key={change.at} className="text-xs text-muted-foreground">
+                                  <span className="font-medium">{format(new Date(change.at), 'MMM d, h:mm a')}</span>
+                                  {' · '}
+                                  {describeChange(change, appointment.patientName)}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : null}
                       </CardContent>
                     </Card>
                   );
@@ -445,6 +813,132 @@ export default function DoctorDashboard(): JSX.Element {
             )}
           </TabsContent>
         </Tabs>
+
+        <Dialog open={Boolean(openAppointment)} onOpenChange={(open) => !open && setOpenId(null)}>
+          {openAppointment && (
+            <DialogContent className="sm:max-w-[520px]">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  {openAppointment.patientName}
+                  <Badge className={getStatusColor(openAppointment.status)}>
+                    <span className="capitalize">{openAppointment.status}</span>
+                  </Badge>
+                </DialogTitle>
+                <DialogDescription className="flex items-center gap-2">
+                  <Mail className="w-3 h-3" />
+                  {openAppointment.patientEmail}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4 text-muted-foreground" />
+                  {format(new Date(openAppointment.date), 'EEEE, MMMM d, yyyy')}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-muted-foreground" />
+                  {format(new Date(openAppointment.date), 'h:mm a')} · {openAppointment.durationMinutes} minutes
+                </div>
+                {openAppointment.notes && (
+                  <div className="flex items-start gap-2">
+                    <FileText className="w-4 h-4 mt-0.5 text-muted-foreground" />
+                    <p className="whitespace-pre-wrap">
+                      <span className="text-muted-foreground">Intake notes:</span> {openAppointment.notes}
+                    </p>
+                  </div>
+                )}
+                <PatientProfileSummary patientId={openAppointment.patientId} />
+                {openAppointment.record && (
+                  <div className="rounded-lg bg-muted/50 p-3 space-y-1">
+                    {openAppointment.record.diagnosis && (
+                      <p>
+                        <span className="text-muted-foreground">Diagnosis:</span> {openAppointment.record.diagnosis}
+                      </p>
+                    )}
+                    {openAppointment.record.visitNotes && (
+                      <p className="whitespace-pre-wrap">{openAppointment.record.visitNotes}</p>
+                    )}
+                    {openAppointment.record.followUp && (
+                      <p className="whitespace-pre-wrap">
+                        <span className="text-muted-foreground">Follow-up:</span> {openAppointment.record.followUp}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {openAppointment.prescription && (
+                  <div className="flex items-start gap-2">
+                    <Pill className="w-4 h-4 mt-0.5 text-muted-foreground" />
+                    <p>
+                      <span className="text-muted-foreground">Prescribed:</span>{' '}
+                      {openAppointment.prescription.medications.map((m) => `${m.name} ${m.dosage}`).join(', ')}
+                    </p>
+                  </div>
+                )}
+                {openAppointment.cancellation && (
+                  <p className="text-muted-foreground">
+                    Cancelled by {openAppointment.cancellation.by === 'doctor' ? 'you' : openAppointment.patientName}:{' '}
+                    {openAppointment.cancellation.reason}
+                  </p>
+                )}
+                {openAppointment.history?.map((change) => (
+                  <p key={change.at} className="text-xs text-muted-foreground">
+                    {format(new Date(change.at), 'MMM d, h:mm a')} · {describeChange(change, openAppointment.patientName)}
+                  </p>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap justify-end gap-2 pt-2">
+                <Button variant="ghost" size="sm" asChild>
+                  <Link to={`/doctor/patients/${openAppointment.patientId}`}>
+                    <UserRound className="w-4 h-4 mr-1" />
+                    Patient history
+                  </Link>
+                </Button>
+                {/* Notes can be started during the visit, before it's marked complete */}
+                {openAppointment.status === 'confirmed' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRecording({ appointment: openAppointment, completing: false })}
+                  >
+                    <ClipboardList className="w-4 h-4 mr-1" />
+                    Notes
+                  </Button>
+                )}
+                {renderActions(openAppointment)}
+              </div>
+            </DialogContent>
+          )}
+        </Dialog>
+
+        <VisitRecordDialog
+          appointment={recording?.appointment ?? null}
+          onClose={() => setRecording(null)}
+          submitLabel={recording?.completing ? 'Save and complete' : 'Save notes'}
+          onSaved={handleRecordSaved}
+        />
+
+        <PrescriptionDialog appointment={prescribing} onClose={() => setPrescribing(null)} />
+
+        {bulkCancelling && (
+          <CancelAppointmentDialog
+            open
+            onOpenChange={(open) => !open && setBulkCancelling(null)}
+            actor="doctor"
+            description={`Cancel ${bulkCancelling.length} appointment${bulkCancelling.length === 1 ? '' : 's'}? Each patient will see the reason you give.`}
+            onConfirm={handleBulkCancelConfirm}
+          />
+        )}
+
+        {cancelling && (
+          <CancelAppointmentDialog
+            open
+            onOpenChange={(open) => !open && setCancelling(null)}
+            actor="doctor"
+            description={`Cancel ${cancelling.patientName}'s appointment on ${format(new Date(cancelling.date), 'PPP p')}? The patient will see the reason you give.`}
+            onConfirm={handleCancelConfirm}
+          />
+        )}
       </div>
     </div>
   );
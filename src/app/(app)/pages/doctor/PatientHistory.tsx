@@ -0,0 +1,236 @@
+// PatientHistory.tsx
+import { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '../../components/ui/avatar';
+import { Skeleton } from '../../components/ui/skeleton';
+import { PrescriptionDialog } from '../../components/appointments/PrescriptionDialog';
+import { VisitRecordDialog } from '../../components/appointments/VisitRecordDialog';
+import { recordsAPI } from '../../lib/api';
+import { getStatusColor, isActive, type DoctorAppointment } from '../../lib/appointments';
+import { canPrescribe } from '../../lib/prescriptions';
+import { canRecordVisit, type PatientHistory as PatientHistoryData } from '../../lib/records';
+import { ArrowLeft, Calendar, ClipboardList, Mail, Phone, Pill } from 'lucide-react';
+
+interface VisitCardProps {
+  appointment: DoctorAppointment;
+  onEdit?: () => void;
+  onPrescribe?: () => void;
+}
+
+function VisitCard({ appointment, onEdit, onPrescribe }: VisitCardProps) {
+  const { record, prescription } = appointment;
+  return (
+    <Card className="shadow-card bg-gradient-card">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Calendar className="w-4 h-4 text-muted-foreground" />
+            {format(new Date(appointment.date), 'EEEE, MMMM d, yyyy · h:mm a')}
+          </CardTitle>
+          <Badge className={getStatusColor(appointment.status)}>
+            <span className="capitalize">{appointment.status}</span>
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div>
+          <p className="font-medium">Intake notes</p>
+          <p className="text-muted-foreground whitespace-pre-wrap">{appointment.notes || 'None provided.'}</p>
+        </div>
+
+        {record ? (
+          <>
+            {record.diagnosis && (
+              <div>
+                <p className="font-medium">Diagnosis</p>
+                <p className="text-muted-foreground">{record.diagnosis}</p>
+              </div>
+            )}
+            {record.visitNotes && (
+              <div>
+                <p className="font-medium">Visit notes</p>
+                <p className="text-muted-foreground whitespace-pre-wrap">{record.visitNotes}</p>
+              </div>
+            )}
+            {record.followUp && (
+              <div>
+                <p className="font-medium">Follow-up</p>
+                <p className="text-muted-foreground whitespace-pre-wrap">{record.followUp}</p>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Last updated {format(new Date(record.updatedAt), 'MMM d, yyyy h:mm a')}
+            </p>
+          </>
+        ) : (
+          appointment.status === 'completed' && <p className="text-muted-foreground">No visit notes recorded.</p>
+        )}
+
+        {prescription && (
+          <div>
+            <p className="font-medium">Prescription</p>
+            <ul className="text-muted-foreground list-disc pl-5">
+              {prescription.medications.map((medication, i) => (
+                <li key={i}>
+                  {medication.name} {medication.dosage} · {medication.frequency} for {medication.duration}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {appointment.cancellation && (
+          <p className="text-muted-foreground">
+            Cancelled by {appointment.cancellation.by === 'doctor' ? 'you' : 'the patient'}: {appointment.cancellation.reason}
+          </p>
+        )}
+
+        {(onEdit || onPrescribe) && (
+          <div className="flex justify-end gap-2">
+            {onEdit && (
+              <Button variant="outline" size="sm" onClick={onEdit}>
+                <ClipboardList className="w-4 h-4 mr-1" />
+                {record ? 'Edit notes' : 'Add notes'}
+              </Button>
+            )}
+            {onPrescribe && (
+              <Button variant="outline" size="sm" onClick={onPrescribe}>
+                <Pill className="w-4 h-4 mr-1" />
+                {prescription ? 'Edit prescription' : 'Prescribe'}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PatientHistory(): JSX.Element {
+  const { patientId = '' } = useParams();
+  const [editing, setEditing] = useState<DoctorAppointment | null>(null);
+  const [prescribing, setPrescribing] = useState<DoctorAppointment | null>(null);
+
+  const { data, isLoading, isError, error } = useQuery<PatientHistoryData, Error>({
+    queryKey: ['patient-history', patientId],
+    queryFn: () => recordsAPI.getPatientHistory(patientId),
+    enabled: Boolean(patientId),
+  });
+
+  // Upcoming: still open and in the future. Everything else is history, newest first.
+  const { upcoming, past } = useMemo(() => {
+    const now = new Date();
+    const appointments = data?.appointments ?? [];
+    return {
+      upcoming: appointments
+        .filter((a) => isActive(a.status) && new Date(a.date) >= now)
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+      past: appointments.filter((a) => !isActive(a.status) || new Date(a.date) < now),
+    };
+  }, [data]);
+
+  const lastVisit = past.find((a) => a.status === 'completed');
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" asChild className="mb-4 -ml-3">
+            <Link to="/doctor/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to appointments
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Patient history</h1>
+          <p className="text-muted-foreground">Every appointment this patient has had with you</p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-28 w-full" />
+            <Skeleton className="h-48 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        ) : isError || !data ? (
+          <div className="text-center py-12">
+            <p className="text-destructive">Failed to load patient history: {error?.message}</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Patient */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center gap-4">
+                <Avatar className="h-16 w-16">
+                  <AvatarImage src={data.patient.avatar} alt={data.patient.name} />
+                  <AvatarFallback>
+                    {data.patient.name.split(' ').map((n) => n[0]).slice(0, 2).join('')}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 space-y-1">
+                  <h2 className="text-xl font-semibold">{data.patient.name}</h2>
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Mail className="w-3 h-3" />
+                    {data.patient.email}
+                  </p>
+                  {data.patient.phone && (
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Phone className="w-3 h-3" />
+                      {data.patient.phone}
+                    </p>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground sm:text-right">
+                  <p>
+                    <span className="text-2xl font-bold text-foreground">
+                      {data.appointments.filter((a) => a.status === 'completed').length}
+                    </span>{' '}
+                    completed visits
+                  </p>
+                  {lastVisit && <p>Last seen {format(new Date(lastVisit.date), 'MMM d, yyyy')}</p>}
+                </div>
+              </CardContent>
+            </Card>
+
+            {upcoming.length > 0 && (
+              <section className="space-y-4">
+                <h2 className="text-lg font-semibold">Upcoming</h2>
+                {upcoming.map((appointment) => (
+                  <VisitCard
+                    key={appointment.id}
+                    appointment={appointment}
+                    onEdit={canRecordVisit(appointment) ? () => setEditing(appointment) : undefined}
+                  />
+                ))}
+              </section>
+            )}
+
+            <section className="space-y-4">
+              <h2 className="text-lg font-semibold">Past appointments</h2>
+              {past.length === 0 ? (
+                <p className="text-muted-foreground">No past appointments yet.</p>
+              ) : (
+                past.map((appointment) => (
+                  <VisitCard
+                    key={appointment.id}
+                    appointment={appointment}
+                    onEdit={canRecordVisit(appointment) ? () => setEditing(appointment) : undefined}
+                    onPrescribe={canPrescribe(appointment) ? () => setPrescribing(appointment) : undefined}
+                  />
+                ))
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+
+      <VisitRecordDialog appointment={editing} onClose={() => setEditing(null)} />
+      <PrescriptionDialog appointment={prescribing} onClose={() => setPrescribing(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+// DoctorProfile.tsx
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '../../components/ui/avatar';
+import { Skeleton } from '../../components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { useToast } from '../../hooks/use-toast';
+import { doctorsAPI, specializations } from '../../lib/api';
+import { applyFieldErrors } from '../../lib/forms';
+import { resizeImage } from '../../lib/images';
+import { doctorProfileSchema, type DoctorProfile } from '../../lib/profiles';
+import { useAuthStore } from '../../store/authStor';
+import { ArrowLeft, Camera, Loader2, Trash2 } from 'lucide-react';
+
+// Lists are edited as plain text: qualifications one per line, languages separated by commas
+const profileFormSchema = doctorProfileSchema.extend({
+  qualifications: z.string(),
+  languages: z.string(),
+  experience: z.string().regex(/^\d+$/, 'Enter whole years'),
+  consultationFee: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Enter an amount, e.g. 120'),
+});
+
+type ProfileForm = z.infer<typeof profileFormSchema>;
+
+const EMPTY_PROFILE: DoctorProfile = {
+  specialization: '',
+  bio: '',
+  qualifications: [],
+  experience: 0,
+  consultationFee: 0,
+  languages: [],
+  clinicAddress: '',
+  photo_url: '',
+};
+
+function toFormValues(profile: DoctorProfile): ProfileForm {
+  return {
+    ...profile,
+    qualifications: profile.qualifications.join('\n'),
+    languages: profile.languages.join(', '),
+    experience: String(profile.experience),
+    consultationFee: String(profile.consultationFee),
+  };
+}
+
+function splitList(text: string, separator: RegExp) {
+  return text
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toProfile(values: ProfileForm): DoctorProfile {
+  return {
+    ...values,
+    qualifications: splitList(values.qualifications, /\n/),
+    languages: splitList(values.languages, /,/),
+    experience: Number(values.experience),
+    consultationFee: Number(values.consultationFee),
+  };
+}
+
+export default function DoctorProfilePage(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, updateUser } = useAuthStore();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [resizing, setResizing] = useState(false);
+  const profileKey = ['my-profile', user?.id];
+
+  const { data: profile, isLoading } = useQuery<DoctorProfile, Error>({
+    queryKey: profileKey,
+    queryFn: () => doctorsAPI.getMyProfile(),
+  });
+
+  const {
+    control,
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    setValue,
+    watch,
+    formState: { errors, isDirty },
+  } = useForm<ProfileForm>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: toFormValues(EMPTY_PROFILE),
+  });
+
+  const photoUrl = watch('photo_url');
+
+  useEffect(() => {
+    if (profile) reset(toFormValues(profile));
+  }, [profile, reset]);
+
+  const saveMutation = useMutation<DoctorProfile, Error, DoctorProfile>({
+    mutationFn: (next) => doctorsAPI.updateProfile(next),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(profileKey, saved);
+      queryClient.invalidateQueries({ queryKey: ['doctors'] });
+      updateUser({ specialization: saved.specialization });
+      reset(toFormValues(saved));
+      toast({ title: 'Profile saved', description: 'Patients will see your changes in the doctor directory.' });
+    },
+    onError: (err) => {
+      const fields = ['specialization', 'bio', 'qualifications', 'experience', 'consultationFee', 'languages', 'clinicAddress', 'photo_url'] as const;
+      if (applyFieldErrors(err, setError, fields)) return;
+      toast({
+        title: 'Save failed',
+        description: err.message || 'Unable to save your profile',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    setResizing(true);
+    try {
+      setValue('photo_url', await resizeImage(file), { shouldDirty: true, shouldValidate: true });
+    } catch (err) {
+      toast({
+        title: 'Upload failed',
+        description: err instanceof Error ? err.message : 'Unable to use that image',
+        variant: 'destructive',
+      });
+    } finally {
+      setResizing(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const onSubmit = (values: ProfileForm) => saveMutation.mutate(toProfile(values));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" asChild className="mb-4 -ml-3">
+            <Link to="/doctor/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to appointments
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Profile</h1>
+          <p className="text-muted-foreground">What patients see about you when they search and book</p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-64 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            {/* Photo */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Photo</CardTitle>
+                <CardDescription>A clear, friendly headshot. Large images are scaled down before upload.</CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <Avatar className="h-24 w-24">
+                  <AvatarImage src={photoUrl || user?.avatar} alt={user?.name} className="object-cover" />
+                  <AvatarFallback>{user?.name.split(' ').map((n) => n[0]).slice(0, 2).join('')}</AvatarFallback>
+                </Avatar>
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => handlePhoto(e.target.files?.[0])}
+                  />
+                  <Button type="button" variant="outline" onClick={() => fileInput.current?.click()} disabled={resizing}>
+                    {resizing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Camera className="w-4 h-4 mr-2" />}
+                    {photoUrl ? 'Change photo' : 'Upload photo'}
+                  </Button>
+                  {photoUrl && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={() => setValue('photo_url', '', { shouldDirty: true })}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                {errors.photo_url && <p className="text-sm text-destructive">{errors.photo_url.message}</p>}
+              </CardContent>
+            </Card>
+
+            {/* About */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>About you</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="specialization">Specialization</Label>
+                  <Controller
+                    control={control}
+                    name="specialization"
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger id="specialization" className="sm:w-72">
+                          <SelectValue placeholder="Select your specialization" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {specializations.map((spec) => (
+                            <SelectItem key={spec} value={spec}>
+                              {spec}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  {errors.specialization && <p className="text-sm text-destructive">{errors.specialization.message}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bio">Bio</Label>
+                  <Textarea
+                    id="bio"
+                    {...register('bio')}
+                    placeholder="Your approach to care, areas of interest..."
+                    className="min-h-[120px]"
+                  />
+                  {errors.bio && <p className="text-sm text-destructive">{errors.bio.message}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="qualifications">Qualifications</Label>
+                  <Textarea
+                    id="qualifications"
+                    {...register('qualifications')}
+                    placeholder={'MBBS, King Edward Medical University\nFCPS (Cardiology)'}
+                    className="min-h-[80px]"
+                  />
+                  <p className="text-sm text-muted-foreground">One per line.</p>
+                  {errors.qualifications && <p className="text-sm text-destructive">{errors.qualifications.message}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="languages">Languages</Label>
+                  <Input id="languages" {...register('languages')} placeholder="English, Urdu" />
+                  <p className="text-sm text-muted-foreground">Separate languages with commas.</p>
+                  {errors.languages && <p className="text-sm text-destructive">{errors.languages.message}</p>}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Practice */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Practice</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="experience">Years of experience</Label>
+                    <Input id="experience" type="number" min={0} {...register('experience')} />
+                    {errors.experience && <p className="text-sm text-destructive">{errors.experience.message}</p>}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="consultationFee">Consultation fee ($)</Label>
+                    <Input id="consultationFee" type="number" min={0} step="0.01" {...register('consultationFee')} />
+                    {errors.consultationFee && (
+                      <p className="text-sm text-destructive">{errors.consultationFee.message}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="clinicAddress">Clinic address</Label>
+                  <Textarea id="clinicAddress" {...register('clinicAddress')} className="min-h-[80px]" />
+                  {errors.clinicAddress && <p className="text-sm text-destructive">{errors.clinicAddress.message}</p>}
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => reset(toFormValues(profile ?? EMPTY_PROFILE))}
+                disabled={!isDirty}
+              >
+                Discard changes
+              </Button>
+              <Button type="submit" variant="medical" disabled={saveMutation.isPending || resizing}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save profile'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
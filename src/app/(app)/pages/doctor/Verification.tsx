@@ -0,0 +1,213 @@
+import { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '../../components/ui/alert';
+import { Skeleton } from '../../components/ui/skeleton';
+import { LicenseDocumentDialog } from '../../components/licenses/LicenseDocumentDialog';
+import { LicenseDocumentList } from '../../components/licenses/LicenseDocumentList';
+import { useToast } from '../../hooks/use-toast';
+import { licensesAPI } from '../../lib/api';
+import { readAsDataUrl } from '../../lib/files';
+import {
+  canEditDocuments,
+  getVerificationStatusColor,
+  LICENSE_FILE_TYPES,
+  licenseUploadSchema,
+  MAX_LICENSE_DOCUMENTS,
+  MAX_LICENSE_FILE_BYTES,
+  VERIFICATION_STATUS_LABELS,
+  type DoctorVerification,
+  type LicenseDocument,
+  type LicenseUpload,
+} from '../../lib/licenses';
+import { useAuthStore } from '../../store/authStor';
+import { AlertTriangle, ArrowLeft, BadgeCheck, Loader2, Upload } from 'lucide-react';
+
+const STATUS_TEXT = {
+  waiting: "Upload a copy of your medical license. Until it's verified, patients can't find or book you.",
+  reviewing: "We're reviewing your documents and will notify you as soon as there's a decision.",
+};
+
+// Checks what the browser knows before reading the file; the server validates the upload again
+async function toUpload(file: File): Promise<LicenseUpload> {
+  if (!(LICENSE_FILE_TYPES as readonly string[]).includes(file.type)) throw new Error('Upload a PDF, JPEG or PNG file');
+  if (file.size > MAX_LICENSE_FILE_BYTES) throw new Error('Files can be at most 2 MB');
+  const parsed = licenseUploadSchema.safeParse({ name: file.name, type: file.type, dataUrl: await readAsDataUrl(file) });
+  if (!parsed.success) throw new Error(parsed.error.issues[0]?.message ?? 'That file could not be uploaded');
+  return parsed.data;
+}
+
+export default function DoctorVerificationPage(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [viewing, setViewing] = useState<LicenseDocument | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const verificationKey = ['doctor-verification', user?.id];
+
+  const { data: verification, isLoading } = useQuery<DoctorVerification, Error>({
+    queryKey: verificationKey,
+    queryFn: () => licensesAPI.getMine(),
+  });
+
+  const uploadMutation = useMutation<DoctorVerification, Error, File>({
+    mutationFn: async (file) => licensesAPI.upload(await toUpload(file)),
+    onSuccess: (updated, file) => {
+      queryClient.setQueryData(verificationKey, updated);
+      toast({ title: 'Document uploaded', description: `${file.name} was added for review.` });
+    },
+    onError: (err) => {
+      toast({ title: 'Upload failed', description: err.message || 'Unable to upload that file', variant: 'destructive' });
+    },
+    onSettled: () => {
+      if (fileInput.current) fileInput.current.value = '';
+    },
+  });
+
+  const removeMutation = useMutation<DoctorVerification, Error, LicenseDocument>({
+    mutationFn: (document) => licensesAPI.remove(document.id),
+    onMutate: (document) => setRemovingId(document.id),
+    onSuccess: (updated) => queryClient.setQueryData(verificationKey, updated),
+    onError: (err) => {
+      toast({ title: 'Document not removed', description: err.message, variant: 'destructive' });
+    },
+    onSettled: () => setRemovingId(null),
+  });
+
+  const editable = verification ? canEditDocuments(verification.status) : false;
+  const full = (verification?.documents.length ?? 0) >= MAX_LICENSE_DOCUMENTS;
+  const review = verification?.review;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" asChild className="mb-4 -ml-3">
+            <Link to="/doctor/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to appointments
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground mb-2">License verification</h1>
+          <p className="text-muted-foreground">Patients can find and book you once an admin has checked your license</p>
+        </div>
+
+        {isLoading || !verification ? (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Status */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle>Status</CardTitle>
+                  <Badge className={getVerificationStatusColor(verification.status)}>
+                    {VERIFICATION_STATUS_LABELS[verification.status]}
+                  </Badge>
+                </div>
+                <CardDescription>License number {verification.licenseNumber || 'not given'}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {verification.status === 'verified' ? (
+                  <p className="flex items-center gap-2 text-sm">
+                    <BadgeCheck className="w-5 h-5 text-success" />
+                    {review
+                      ? `Verified on ${format(new Date(review.reviewedAt), 'MMM d, yyyy')}. `
+                      : 'Your license is verified. '}
+                    Patients can find you in the directory and book appointments.
+                  </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {verification.status === 'pending_verification' && verification.documents.length > 0
+                      ? STATUS_TEXT.reviewing
+                      : STATUS_TEXT.waiting}
+                  </p>
+                )}
+
+                {review?.decision === 'rejected' && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>
+                      {verification.status === 'rejected' ? 'Your license was not verified' : 'Previously rejected'}
+                    </AlertTitle>
+                    <AlertDescription>
+                      <p>{review.reason}</p>
+                      {verification.status === 'rejected' && (
+                        <p className="mt-2">Upload corrected documents and they'll be reviewed again.</p>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Documents */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Documents</CardTitle>
+                <CardDescription>
+                  Your medical license and any supporting certificates. PDF, JPEG or PNG, up to 2 MB each, at most{' '}
+                  {MAX_LICENSE_DOCUMENTS} files.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <LicenseDocumentList
+                  documents={verification.documents}
+                  onView={setViewing}
+                  onRemove={editable ? (document) => removeMutation.mutate(document) : undefined}
+                  removingId={removingId}
+                />
+                {editable && (
+                  <>
+                    <input
+                      ref={fileInput}
+                      type="file"
+                      accept={LICENSE_FILE_TYPES.join(',')}
+                      className="hidden"
+                      onChange={(e) => e.target.files?.[0] && uploadMutation.mutate(e.target.files[0])}
+                    />
+                    <Button
+                      type="button"
+                      variant="medical"
+                      onClick={() => fileInput.current?.click()}
+                      disabled={uploadMutation.isPending || full}
+                    >
+                      {uploadMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Uploading...
+                        </>
+                      ) : (
+                        <>
+                          <Upload className="w-4 h-4 mr-2" />
+                          Upload document
+                        </>
+                      )}
+                    </Button>
+                    {full && <p className="text-sm text-muted-foreground">Remove a document to upload another.</p>}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <LicenseDocumentDialog
+        document={viewing}
+        onOpenChange={(open) => !open && setViewing(null)}
+        load={(document) => licensesAPI.getDocument(document.id)}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '../../../../app/(app)/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../../app/(app)/components/ui/card';
@@ -7,49 +8,58 @@ import { Avatar, AvatarFallback, AvatarImage } from '../../../../app/(app)/compo
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../../app/(app)/components/ui/tabs';
 import { Skeleton } from '../../../../app/(app)/components/ui/skeleton';
 import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from '../../../../app/(app)/components/ui/alert-dialog';
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../../components/ui/dialog';
+import { CancelAppointmentDialog } from '../../components/appointments/CancelAppointmentDialog';
+import { PrescriptionView } from '../../components/appointments/PrescriptionView';
+import { RescheduleAppointmentModal } from '../../components/appointments/RescheduleAppointment';
 import { useToast } from '../../hooks/use-toast';
+import { useAuthStore } from '../../store/authStor';
 import { appointmentsAPI } from '../../lib/api';
-import { Navbar } from '../../../../app/(app)/components/layout/Navbar';
-import { Calendar, Clock, DollarSign, X, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import {
+  canReschedule,
+  canTransition,
+  cancellationDeadline,
+  getStatusColor,
+  isCancellationWindowOpen,
+  type AppointmentStatus,
+  type PatientAppointment,
+} from '../../lib/appointments';
+import { Calendar, CalendarClock, Clock, DollarSign, X, CheckCircle, AlertCircle, Pill } from 'lucide-react';
 import { format } from 'date-fns';
+import { cn } from '../../lib/utils';
 
-export type Appointment = {
-  id: string;
-  doctorName: string;
-  doctorAvatar?: string;
-  doctorSpecialization?: string;
-  consultationFee?: number;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
-  date: string;
-};
-
-type AppointmentStatus = 'all' | 'confirmed' | 'pending' | 'completed' | 'cancelled';
+type StatusFilter = 'all' | AppointmentStatus;
 
 export default function PatientAppointments() {
-  const [selectedStatus, setSelectedStatus] = useState<AppointmentStatus>('all');
+  const [selectedStatus, setSelectedStatus] = useState<StatusFilter>('all');
+  const [rescheduling, setRescheduling] = useState<PatientAppointment | null>(null);
+  const [cancelling, setCancelling] = useState<PatientAppointment | null>(null);
+  const [viewingPrescription, setViewingPrescription] = useState<PatientAppointment | null>(null);
+  const { user } = useAuthStore();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Set by the booking and reschedule flows so the changed appointment stands out
+  const highlightId = (location.state as { highlightId?: string } | null)?.highlightId;
+  const highlightRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch appointments
-  const { data: appointments = [], isLoading } = useQuery<Appointment[]>({
+  const { data: appointments = [], isLoading } = useQuery<PatientAppointment[]>({
     queryKey: ['patient-appointments'],
     queryFn: appointmentsAPI.getPatientAppointments,
   });
 
   // Cancel appointment mutation
-  const cancelMutation = useMutation<void, Error, string>({
-    mutationFn: (appointmentId: string) => appointmentsAPI.cancelAppointment(appointmentId),
+  const cancelMutation = useMutation<PatientAppointment, Error, { appointment: PatientAppointment; reason: string }>({
+    mutationFn: ({ appointment, reason }) => appointmentsAPI.cancelAppointment(appointment, reason),
     onSuccess: () => {
+      setCancelling(null);
       toast({
         title: 'Appointment Cancelled',
         description: 'Your appointment has been cancelled successfully.',
@@ -65,27 +75,24 @@ export default function PatientAppointments() {
     },
   });
 
+  const cancelWindowOpen = (appointment: PatientAppointment) =>
+    isCancellationWindowOpen(appointment, appointment.cancellationWindowHours, new Date());
+
+  const cancellationPolicy = (appointment: PatientAppointment) => {
+    const hours = appointment.cancellationWindowHours;
+    if (!hours) return `${appointment.doctorName} allows cancellation any time before the appointment.`;
+    const notice = `${appointment.doctorName} asks for ${hours} hours' notice to cancel or reschedule.`;
+    return cancelWindowOpen(appointment)
+      ? `${notice} You can cancel online until ${format(cancellationDeadline(appointment, hours), 'PPP p')}.`
+      : `${notice} This appointment can no longer be changed online; please contact the clinic.`;
+  };
+
   // Filter appointments by status
-  const filteredAppointments = appointments.filter((appointment: Appointment) =>
+  const filteredAppointments = appointments.filter((appointment) =>
     selectedStatus === 'all' ? true : appointment.status === selectedStatus
   );
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'confirmed':
-        return 'bg-success text-success-foreground';
-      case 'pending':
-        return 'bg-warning text-warning-foreground';
-      case 'completed':
-        return 'bg-primary text-primary-foreground';
-      case 'cancelled':
-        return 'bg-destructive text-destructive-foreground';
-      default:
-        return 'bg-muted text-muted-foreground';
-    }
-  };
-
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: AppointmentStatus) => {
     switch (status) {
       case 'confirmed':
         return <CheckCircle className="w-4 h-4" />;
@@ -110,10 +117,14 @@ export default function PatientAppointments() {
 
   const counts = getAppointmentCounts();
 
+  useEffect(() => {
+    if (highlightId && !isLoading) {
+      highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [highlightId, isLoading]);
+
   return (
     <div className="min-h-screen bg-background">
-      <Navbar />
-
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Header */}
         <div className="mb-8">
@@ -124,9 +135,9 @@ export default function PatientAppointments() {
         </div>
 
         {/* Status Tabs */}
-        <Tabs value={selectedStatus} onValueChange={(value) => setSelectedStatus(value as AppointmentStatus)}>
+        <Tabs value={selectedStatus} onValueChange={(value) => setSelectedStatus(value as StatusFilter)}>
           <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
-            {(['all', 'confirmed', 'pending', 'completed', 'cancelled'] as AppointmentStatus[]).map((status) => (
+            {(['all', 'confirmed', 'pending', 'completed', 'cancelled'] as StatusFilter[]).map((status) => (
               <TabsTrigger key={status} value={status} className="flex items-center gap-2">
                 {status.charAt(0).toUpperCase() + status.slice(1)}
                 {counts[status] > 0 && (
@@ -185,12 +196,19 @@ export default function PatientAppointments() {
             ) : (
               <div className="space-y-4">
                 {filteredAppointments.map((appointment) => (
-                  <Card key={appointment.id} className="shadow-card hover:shadow-hover transition-all bg-gradient-card">
+                  <Card
+                    key={appointment.id}
+                    ref={appointment.id === highlightId ? highlightRef : undefined}
+                    className={cn(
+                      'shadow-card hover:shadow-hover transition-all bg-gradient-card',
+                      appointment.id === highlightId && 'ring-2 ring-primary ring-offset-2'
+                    )}
+                  >
                     <CardHeader className="pb-4">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-4">
                           <Avatar className="h-12 w-12">
-                            <AvatarImage src={appointment.doctorAvatar} alt={appointment.doctorName} />
+                            <AvatarImage src={appointment.doctorAvatar ?? undefined} alt={appointment.doctorName} />
                             <AvatarFallback>
                               {appointment.doctorName
                                 .split(' ')
@@ -203,6 +221,18 @@ export default function PatientAppointments() {
                             <p className="text-sm text-muted-foreground">
                               {appointment.doctorSpecialization ?? 'N/A'}
                             </p>
+                            {appointment.history?.length ? (
+                              <p className="text-xs text-muted-foreground">
+                                Rescheduled from{' '}
+                                {format(new Date(appointment.history[appointment.history.length - 1].fromDate), 'MMM d, h:mm a')}
+                              </p>
+                            ) : null}
+                            {appointment.cancellation && (
+                              <p className="text-xs text-muted-foreground">
+                                Cancelled by {appointment.cancellation.by === 'patient' ? 'you' : appointment.doctorName}:{' '}
+                                {appointment.cancellation.reason}
+                              </p>
+                            )}
                           </div>
                         </div>
                         <Badge className={getStatusColor(appointment.status)}>
@@ -232,41 +262,33 @@ export default function PatientAppointments() {
                         </div>
 
                         <div className="flex gap-2">
-                          {appointment.status === 'confirmed' || appointment.status === 'pending' ? (
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <Button variant="destructive" size="sm">
-                                  Cancel
-                                </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Cancel Appointment</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    Are you sure you want to cancel this appointment with{' '}
-                                    {appointment.doctorName}? This action cannot be undone.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Keep Appointment</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={() => cancelMutation.mutate(appointment.id)}
-                                    disabled={cancelMutation.isPending}
-                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                  >
-                                    {cancelMutation.isPending ? (
-                                      <>
-                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                        Cancelling...
-                                      </>
-                                    ) : (
-                                      'Cancel Appointment'
-                                    )}
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
-                          ) : null}
+                          {appointment.status === 'completed' && appointment.prescription && (
+                            <Button variant="outline" size="sm" onClick={() => setViewingPrescription(appointment)}>
+                              <Pill className="w-4 h-4 mr-1" />
+                              Prescription
+                            </Button>
+                          )}
+                          {canReschedule(appointment.status) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setRescheduling(appointment)}
+                              disabled={!cancelWindowOpen(appointment)}
+                              title={
+                                cancelWindowOpen(appointment)
+                                  ? undefined
+                                  : 'Too close to the appointment to reschedule online. Please contact the clinic.'
+                              }
+                            >
+                              <CalendarClock className="w-4 h-4 mr-1" />
+                              Reschedule
+                            </Button>
+                          )}
+                          {canTransition(appointment.status, 'cancelled', 'patient') && (
+                            <Button variant="destructive" size="sm" onClick={() => setCancelling(appointment)}>
+                              Cancel
+                            </Button>
+                          )}
                         </div>  
                       </div>
                     </CardContent>
@@ -276,6 +298,49 @@ export default function PatientAppointments() {
             )}
           </TabsContent>
         </Tabs>
+
+        {cancelling && (
+          <CancelAppointmentDialog
+            open
+            onOpenChange={(open) => !open && setCancelling(null)}
+            actor="patient"
+            description={`Are you sure you want to cancel this appointment with ${cancelling.doctorName}? This action cannot be undone.`}
+            policy={cancellationPolicy(cancelling)}
+            blocked={!cancelWindowOpen(cancelling)}
+            isPending={cancelMutation.isPending}
+            onConfirm={(reason) => cancelMutation.mutate({ appointment: cancelling, reason })}
+          />
+        )}
+
+        <Dialog open={Boolean(viewingPrescription)} onOpenChange={(open) => !open && setViewingPrescription(null)}>
+          {viewingPrescription?.prescription && (
+            <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  <Pill className="w-5 h-5 text-primary" />
+                  Prescription
+                </DialogTitle>
+                <DialogDescription>
+                  {viewingPrescription.doctorName} · {format(new Date(viewingPrescription.date), 'EEEE, MMMM d, yyyy')}
+                </DialogDescription>
+              </DialogHeader>
+              <PrescriptionView
+                date={viewingPrescription.date}
+                doctorName={viewingPrescription.doctorName}
+                doctorSpecialization={viewingPrescription.doctorSpecialization}
+                patientName={user?.name ?? ''}
+                prescription={viewingPrescription.prescription}
+              />
+            </DialogContent>
+          )}
+        </Dialog>
+
+        <RescheduleAppointmentModal
+          appointment={rescheduling}
+          isOpen={Boolean(rescheduling)}
+          onClose={() => setRescheduling(null)}
+          onRescheduled={(id) => navigate(location.pathname, { replace: true, state: { highlightId: id } })}
+        />
       </div>
     </div>
   );
@@ -1,38 +1,104 @@
 "use client";
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../../components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
 import { Input } from "../../components/ui/input";
 import { Button } from "../../components/ui/button";
-import { Filter } from "lucide-react";
-
-interface Doctor {
-  id: number;
-  name: string;
-  specialization: string;
-  experience: string;
-}
-
-const doctors: Doctor[] = [
-  { id: 1, name: "Dr. Ahsan Khan", specialization: "Cardiology", experience: "10 years" },
-  { id: 2, name: "Dr. Sara Malik", specialization: "Neurology", experience: "7 years" },
-  { id: 3, name: "Dr. Imran Ali", specialization: "Orthopedics", experience: "12 years" },
-  { id: 4, name: "Dr. Zainab Fatima", specialization: "Dermatology", experience: "5 years" },
-];
+import { Skeleton } from "../../components/ui/skeleton";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "../../components/ui/pagination";
+import { BookAppointmentModal } from "../../components/appointments/BookAppointments";
+import { doctorsAPI, specializations } from "../../lib/api";
+import type { Doctor, DoctorSort, Paginated } from "../../../../types/types";
+import { ArrowUpDown, Filter, Star } from "lucide-react";
+
+const PAGE_SIZE = 6;
 
-const specializations = ["Cardiology", "Neurology", "Orthopedics", "Dermatology"];
+const sortOptions: { value: DoctorSort; label: string }[] = [
+  { value: "rating", label: "Top rated" },
+  { value: "experience", label: "Most experienced" },
+  { value: "fee", label: "Lowest fee" },
+  { value: "name", label: "Name (A-Z)" },
+];
 
 const PatientDashboard: React.FC = () => {
-  const [search, setSearch] = useState("");
-  const [selectedSpecialization, setSelectedSpecialization] = useState("");
-
-  const filteredDoctors = doctors.filter((doctor) => {
-    const matchesSearch = doctor.name.toLowerCase().includes(search.toLowerCase());
-    const matchesSpecialization =
-      selectedSpecialization === "" || doctor.specialization === selectedSpecialization;
-    return matchesSearch && matchesSpecialization;
+  // Filters live in the URL so a search can be shared or bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const specialization = searchParams.get("specialization") ?? "";
+  const sort = (searchParams.get("sort") as DoctorSort | null) ?? "rating";
+  const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+
+  const [search, setSearch] = useState(query);
+  const [bookingDoctor, setBookingDoctor] = useState<Doctor | null>(null);
+  const navigate = useNavigate();
+
+  const updateParams = useCallback(
+    (changes: Record<string, string | number | null>) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          for (const [key, value] of Object.entries(changes)) {
+            if (value === null || value === "") next.delete(key);
+            else next.set(key, String(value));
+          }
+          // Any filter change starts again from the first page
+          if (!("page" in changes)) next.delete("page");
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  // Debounce typing into the URL
+  useEffect(() => {
+    if (search.trim() === query) return;
+    const timer = setTimeout(() => updateParams({ q: search.trim() }), 300);
+    return () => clearTimeout(timer);
+  }, [search, query, updateParams]);
+
+  // Follow the URL when it changes from outside the input (back/forward, a shared link), but leave
+  // what's being typed alone, trailing spaces included
+  useEffect(() => {
+    setSearch((current) => (current.trim() === query ? current : query));
+  }, [query]);
+
+  const { data, isLoading, isError, error, isPlaceholderData } = useQuery<Paginated<Doctor>, Error>({
+    queryKey: ["doctors", { query, specialization, sort, page }],
+    queryFn: () => doctorsAPI.search({ query, specialization, sort, page, pageSize: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
   });
 
+  const doctors = data?.items ?? [];
+  const totalPages = data?.totalPages ?? 1;
+
+  const pageHref = (target: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("page", String(target));
+    return `?${next}`;
+  };
+
+  // Land on the appointments list with the new booking highlighted
+  const handleBooked = (appointmentId: string) => {
+    navigate("/patient/appointments", { state: { highlightId: appointmentId } });
+  };
+
+  const goToPage = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target < 1 || target > totalPages || target === page) return;
+    updateParams({ page: target });
+  };
+
   return (
     <div className="p-6 max-w-7xl mx-auto bg-[#1C829E] min-h-screen">
       <h1 className="text-3xl font-extrabold text-gray-900 mb-6">Patient Dashboard</h1>
@@ -47,10 +113,10 @@ const PatientDashboard: React.FC = () => {
         />
 
         <Select
-          value={selectedSpecialization || "all"}
-          onValueChange={(value) => setSelectedSpecialization(value === "all" ? "" : value)}
+          value={specialization || "all"}
+          onValueChange={(value) => updateParams({ specialization: value === "all" ? null : value })}
         >
-          <SelectTrigger className="md:w-1/3 shadow-md border-gray-300 focus:ring-2 focus:ring-blue-500">
+          <SelectTrigger className="md:w-1/4 shadow-md border-gray-300 focus:ring-2 focus:ring-blue-500">
             <Filter className="w-4 h-4 mr-2 text-gray-500" />
             <SelectValue placeholder="All Specializations" />
           </SelectTrigger>
@@ -63,34 +129,107 @@ const PatientDashboard: React.FC = () => {
             ))}
           </SelectContent>
         </Select>
+
+        <Select value={sort} onValueChange={(value) => updateParams({ sort: value === "rating" ? null : value })}>
+          <SelectTrigger className="md:w-1/4 shadow-md border-gray-300 focus:ring-2 focus:ring-blue-500">
+            <ArrowUpDown className="w-4 h-4 mr-2 text-gray-500" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Doctors List */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredDoctors.map((doctor) => (
-          <Card
-            key={doctor.id}
-            className="hover:shadow-xl transition-shadow duration-300 border border-gray-200 rounded-xl"
-          >
-            <CardHeader>
-              <CardTitle className="text-xl font-semibold text-blue-600">
-                {doctor.name}
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className="text-gray-600">Specialization: <span className="font-medium">{doctor.specialization}</span></p>
-              <p className="text-gray-600">Experience: <span className="font-medium">{doctor.experience}</span></p>
-              <Button className="mt-4 w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg">
-                Book Appointment
-              </Button>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {Array.from({ length: PAGE_SIZE }).map((_, i) => (
+            <Skeleton key={i} className="h-48 rounded-xl" />
+          ))}
+        </div>
+      ) : isError ? (
+        <p className="text-white mt-6 text-center">Failed to load doctors: {error?.message}</p>
+      ) : (
+        <div
+          className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 transition-opacity ${
+            isPlaceholderData ? "opacity-60" : ""
+          }`}
+        >
+          {doctors.map((doctor) => (
+            <Card
+              key={doctor.id}
+              className="hover:shadow-xl transition-shadow duration-300 border border-gray-200 rounded-xl"
+            >
+              <CardHeader>
+                <CardTitle className="text-xl font-semibold text-blue-600">
+                  {doctor.name}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-gray-600">Specialization: <span className="font-medium">{doctor.specialization}</span></p>
+                <p className="text-gray-600">Experience: <span className="font-medium">{doctor.experience} years</span></p>
+                <p className="text-gray-600 flex items-center gap-1">
+                  Rating: <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                  <span className="font-medium">{doctor.rating.toFixed(1)}</span>
+                </p>
+                <p className="text-gray-600">Fee: <span className="font-medium">${doctor.consultationFee}</span></p>
+                <Button
+                  className="mt-4 w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+                  onClick={() => setBookingDoctor(doctor)}
+                >
+                  Book Appointment
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
 
-      {filteredDoctors.length === 0 && (
+      {!isLoading && !isError && doctors.length === 0 && (
         <p className="text-gray-500 mt-6 text-center">No doctors found matching your criteria.</p>
       )}
+
+      {totalPages > 1 && (
+        <Pagination className="mt-8">
+          <PaginationContent className="bg-white/90 rounded-lg p-1">
+            <PaginationItem>
+              <PaginationPrevious
+                href={pageHref(Math.max(page - 1, 1))}
+                onClick={goToPage(page - 1)}
+                aria-disabled={page <= 1}
+                className={page <= 1 ? "pointer-events-none opacity-50" : undefined}
+              />
+            </PaginationItem>
+            {Array.from({ length: totalPages }, (_, i) => i + 1).map((target) => (
+              <PaginationItem key={target}>
+                <PaginationLink href={pageHref(target)} onClick={goToPage(target)} isActive={target === page}>
+                  {target}
+                </PaginationLink>
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href={pageHref(Math.min(page + 1, totalPages))}
+                onClick={goToPage(page + 1)}
+                aria-disabled={page >= totalPages}
+                className={page >= totalPages ? "pointer-events-none opacity-50" : undefined}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      <BookAppointmentModal
+        doctor={bookingDoctor}
+        isOpen={Boolean(bookingDoctor)}
+        onClose={() => setBookingDoctor(null)}
+        onBooked={handleBooked}
+      />
     </div>
   );
 };
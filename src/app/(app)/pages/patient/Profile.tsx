@@ -0,0 +1,341 @@
+// PatientProfile.tsx
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Controller, useFieldArray, useForm, type Path } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import { Skeleton } from '../../components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { useToast } from '../../hooks/use-toast';
+import { patientsAPI } from '../../lib/api';
+import { applyFieldErrors } from '../../lib/forms';
+import {
+  BLOOD_TYPES,
+  EMPTY_PATIENT_PROFILE,
+  GENDERS,
+  GENDER_LABELS,
+  patientProfileSchema,
+  type PatientProfile,
+} from '../../lib/profiles';
+import { useAuthStore } from '../../store/authStor';
+import { ArrowLeft, Loader2, Plus, Trash2 } from 'lucide-react';
+
+// Allergies and conditions are edited as plain text, one per line
+const profileFormSchema = patientProfileSchema.extend({
+  allergies: z.string().max(4000),
+  conditions: z.string().max(4000),
+});
+
+type ProfileForm = z.infer<typeof profileFormSchema>;
+
+const EMPTY_MEDICATION = { name: '', dosage: '' };
+
+function toFormValues(profile: PatientProfile): ProfileForm {
+  return {
+    ...profile,
+    allergies: profile.allergies.join('\n'),
+    conditions: profile.conditions.join('\n'),
+  };
+}
+
+function splitLines(text: string) {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function toProfile(values: ProfileForm): PatientProfile {
+  return { ...values, allergies: splitLines(values.allergies), conditions: splitLines(values.conditions) };
+}
+
+export default function PatientProfilePage(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  // Per user, so switching accounts never shows the previous account's details
+  const profileKey = ['my-profile', user?.id];
+
+  const { data: profile, isLoading } = useQuery<PatientProfile, Error>({
+    queryKey: profileKey,
+    queryFn: () => patientsAPI.getMyProfile(),
+  });
+
+  const {
+    control,
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isDirty },
+  } = useForm<ProfileForm>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: toFormValues(EMPTY_PATIENT_PROFILE),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'medications' });
+
+  useEffect(() => {
+    if (profile) reset(toFormValues(profile));
+  }, [profile, reset]);
+
+  const saveMutation = useMutation<PatientProfile, Error, PatientProfile>({
+    mutationFn: (next) => patientsAPI.updateProfile(next),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(profileKey, saved);
+      reset(toFormValues(saved));
+      toast({ title: 'Profile saved', description: 'Your doctors will see the updated details at your next visit.' });
+    },
+    onError: (err) => {
+      // Server paths look like "personal.dateOfBirth" or "medications.0.name", which is also how the form names them
+      const paths: Path<ProfileForm>[] = [
+        'personal.dateOfBirth',
+        'personal.gender',
+        'personal.bloodType',
+        'allergies',
+        'conditions',
+        'medications',
+        'emergencyContact.name',
+        'emergencyContact.relationship',
+        'emergencyContact.phone',
+        ...fields.flatMap((_, i) => [`medications.${i}.name`, `medications.${i}.dosage`] as const),
+      ];
+      if (applyFieldErrors(err, setError, paths)) return;
+      toast({
+        title: 'Save failed',
+        description: err.message || 'Unable to save your profile',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (values: ProfileForm) => saveMutation.mutate(toProfile(values));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" asChild className="mb-4 -ml-3">
+            <Link to="/patient/appointments">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to appointments
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Profile & medical history</h1>
+          <p className="text-muted-foreground">Shared with the doctors you book, so they can prepare for your visit</p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-40 w-full" />
+            <Skeleton className="h-64 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            {/* Personal details */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Personal details</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="dateOfBirth">Date of birth</Label>
+                  <Input
+                    id="dateOfBirth"
+                    type="date"
+                    max={format(new Date(), 'yyyy-MM-dd')}
+                    {...register('personal.dateOfBirth')}
+                  />
+                  {errors.personal?.dateOfBirth && (
+                    <p className="text-sm text-destructive">{errors.personal.dateOfBirth.message}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gender">Gender</Label>
+                  <Controller
+                    control={control}
+                    name="personal.gender"
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger id="gender">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GENDERS.map((gender) => (
+                            <SelectItem key={gender} value={gender}>
+                              {GENDER_LABELS[gender]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bloodType">Blood type</Label>
+                  <Controller
+                    control={control}
+                    name="personal.bloodType"
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger id="bloodType">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BLOOD_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {type === 'unknown' ? "Don't know" : type}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Medical history */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Medical history</CardTitle>
+                <CardDescription>Leave anything that doesn't apply empty.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="allergies">Allergies</Label>
+                    <Textarea
+                      id="allergies"
+                      {...register('allergies')}
+                      placeholder={'Penicillin\nPeanuts'}
+                      className="min-h-[100px]"
+                    />
+                    <p className="text-sm text-muted-foreground">One per line.</p>
+                    {errors.allergies && <p className="text-sm text-destructive">{errors.allergies.message}</p>}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="conditions">Chronic conditions</Label>
+                    <Textarea
+                      id="conditions"
+                      {...register('conditions')}
+                      placeholder={'Asthma\nType 2 diabetes'}
+                      className="min-h-[100px]"
+                    />
+                    <p className="text-sm text-muted-foreground">One per line.</p>
+                    {errors.conditions && <p className="text-sm text-destructive">{errors.conditions.message}</p>}
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Current medications</Label>
+                  {fields.length === 0 && <p className="text-sm text-muted-foreground">No medications listed.</p>}
+                  {fields.map((field, i) => {
+                    const fieldErrors = errors.medications?.[i];
+                    return (
+                      <div key={field.id} className="flex items-start gap-2">
+                        <div className="grid flex-1 grid-cols-1 sm:grid-cols-2 gap-2">
+                          <div className="space-y-1">
+                            <Input
+                              {...register(`medications.${i}.name`)}
+                              placeholder="Medication, e.g. Metformin"
+                              aria-label={`Medication ${i + 1} name`}
+                            />
+                            {fieldErrors?.name && <p className="text-sm text-destructive">{fieldErrors.name.message}</p>}
+                          </div>
+                          <div className="space-y-1">
+                            <Input
+                              {...register(`medications.${i}.dosage`)}
+                              placeholder="Dosage, e.g. 500 mg twice daily"
+                              aria-label={`Medication ${i + 1} dosage`}
+                            />
+                            {fieldErrors?.dosage && <p className="text-sm text-destructive">{fieldErrors.dosage.message}</p>}
+                          </div>
+                        </div>
+                        <Button type="button" variant="ghost" size="sm" onClick={() => remove(i)}>
+                          <Trash2 className="w-4 h-4" />
+                          <span className="sr-only">Remove medication</span>
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  {errors.medications?.message && <p className="text-sm text-destructive">{errors.medications.message}</p>}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => append(EMPTY_MEDICATION)}
+                    disabled={fields.length >= 30}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add medication
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Emergency contact */}
+            <Card className="shadow-card bg-gradient-card">
+              <CardHeader>
+                <CardTitle>Emergency contact</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="contactName">Name</Label>
+                  <Input id="contactName" {...register('emergencyContact.name')} />
+                  {errors.emergencyContact?.name && (
+                    <p className="text-sm text-destructive">{errors.emergencyContact.name.message}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contactRelationship">Relationship</Label>
+                  <Input id="contactRelationship" {...register('emergencyContact.relationship')} placeholder="e.g. Spouse" />
+                  {errors.emergencyContact?.relationship && (
+                    <p className="text-sm text-destructive">{errors.emergencyContact.relationship.message}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contactPhone">Phone</Label>
+                  <Input id="contactPhone" type="tel" {...register('emergencyContact.phone')} />
+                  {errors.emergencyContact?.phone && (
+                    <p className="text-sm text-destructive">{errors.emergencyContact.phone.message}</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => reset(toFormValues(profile ?? EMPTY_PATIENT_PROFILE))}
+                disabled={!isDirty}
+              >
+                Discard changes
+              </Button>
+              <Button type="submit" variant="medical" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save profile'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
+import { useEffect, useState } from 'react';
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 
-interface User {
+export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'patient' | 'doctor';
+  role: 'patient' | 'doctor' | 'admin';
   specialization?: string;
   phone: string;
   avatar: string;
@@ -14,8 +15,12 @@ interface User {
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  login: (user: User, token: string) => void;
+  login: (user: User, token: string, refreshToken?: string) => void;
+  setTokens: (token: string, refreshToken: string) => void;
+  // Keeps the signed-in user in step after they edit their own details
+  updateUser: (changes: Partial<Omit<User, 'id' | 'role'>>) => void;
   logout: () => void;
 }
 
@@ -24,13 +29,31 @@ export const useAuthStore = create<AuthState>()(
     (set) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
-      login: (user: User, token: string) => set({ user, token, isAuthenticated: true }),
-      logout: () => set({ user: null, token: null, isAuthenticated: false }),
+      login: (user: User, token: string, refreshToken?: string) =>
+        set({ user, token, refreshToken: refreshToken ?? null, isAuthenticated: true }),
+      setTokens: (token: string, refreshToken: string) => set({ token, refreshToken }),
+      updateUser: (changes) => set((state) => ({ user: state.user && { ...state.user, ...changes } })),
+      logout: () => set({ user: null, token: null, refreshToken: null, isAuthenticated: false }),
     }),
     {
       name: 'auth-storage', // localStorage key
       storage: createJSONStorage(() => localStorage),
     }
   )
-);
\ No newline at end of file
+);
+
+// False until the persisted session has been read back from localStorage
+export function useAuthHydrated() {
+  const [hydrated, setHydrated] = useState(() => useAuthStore.persist.hasHydrated());
+
+  useEffect(() => {
+    if (hydrated) return;
+    const unsubscribe = useAuthStore.persist.onFinishHydration(() => setHydrated(true));
+    setHydrated(useAuthStore.persist.hasHydrated());
+    return unsubscribe;
+  }, [hydrated]);
+
+  return hydrated;
+}
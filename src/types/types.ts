@@ -1,10 +1,36 @@
+import type { PatientAppointment } from '../app/(app)/lib/appointments';
+
 export interface Doctor {
-  id?: string;
-  _id?: string;
+  id: string;
   name: string;
+  specialization: string;
+  experience: number; // years in practice
+  rating: number; // 0-5
+  consultationFee: number;
+  avatar: string;
+  photo_url?: string; // uploaded photo; shown instead of `avatar` when set
+  bio?: string;
+  qualifications?: string[];
+  languages?: string[];
+  clinicAddress?: string;
+}
+
+export type DoctorSort = 'rating' | 'experience' | 'fee' | 'name';
+
+export interface DoctorSearchParams {
+  query?: string;
   specialization?: string;
-  photo_url?:string;    
-  // Add other fields if needed
+  sort?: DoctorSort;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
 }
 
 
@@ -16,13 +42,14 @@ export interface AppointmentPayload {
 
 export interface BookingModalProps {
   doctor: Doctor | null;
+  isOpen: boolean;
   onClose: () => void;
+  onBooked?: (appointmentId: string) => void;
 }
 
-
-export interface AppointmentResponse {
-  id: string;
-  doctorId: string;
-  date: string;
-  status: 'PENDING' | 'COMPLETED' | 'CANCELLED';
-}
\ No newline at end of file
+export interface RescheduleModalProps {
+  appointment: PatientAppointment | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onRescheduled?: (appointmentId: string) => void;
+}
@@ -1,2 +1,2 @@
-export const API_BASE = 'https://appointment-manager-node.onrender.com/api/v1';
+export const API_BASE = import.meta.env.VITE_API_BASE ?? 'https://appointment-manager-node.onrender.com/api/v1';
 export const ROLES = { DOCTOR: 'DOCTOR', PATIENT: 'PATIENT' } as const;